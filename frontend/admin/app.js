@@ -0,0 +1,265 @@
+/**
+ * IhuOfertas admin dashboard
+ *
+ * Signs in with Firebase Auth, reads the user's role from admins/{uid}
+ * (viewer, editor or admin) and lists products straight from Firestore.
+ * Viewers only browse; editors and admins get the actions (the security
+ * rules enforce the same split):
+ * - Regenerate creative: POST /api/generate-creative
+ * - Mark as posted / hide: direct Firestore updates
+ * - Fetch deals now: POST /api/fetch-products
+ * API calls carry the user's ID token.
+ */
+(function () {
+    const PAGE_SIZE = 50;
+
+    const auth = firebase.auth();
+    const db = firebase.firestore();
+
+    const el = (id) => document.getElementById(id);
+    const views = ['loginView', 'deniedView', 'appView'];
+    const ROLES = ['viewer', 'editor', 'admin'];
+
+    let products = [];
+    let canEdit = false;
+
+    function show(view) {
+        views.forEach((v) => el(v).classList.toggle('hidden', v !== view));
+    }
+
+    function setStatus(text) {
+        el('status').textContent = text;
+    }
+
+    function formatPrice(price) {
+        if (typeof price !== 'number') return '-';
+        return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    }
+
+    function formatDate(ts) {
+        return ts && ts.toDate ? ts.toDate().toLocaleString('pt-BR') : '';
+    }
+
+    function escapeHtml(text) {
+        const div = document.createElement('div');
+        div.textContent = text == null ? '' : String(text);
+        return div.innerHTML;
+    }
+
+    async function callApi(path, body) {
+        const token = await auth.currentUser.getIdToken();
+        const res = await fetch(path, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+            body: JSON.stringify(body || {}),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        return data;
+    }
+
+    // ========================================================================
+    // DATA
+    // ========================================================================
+
+    async function clickCount(productRef) {
+        const shards = await productRef.collection('clickShards').get();
+        return shards.docs.reduce((sum, doc) => sum + (doc.get('count') || 0), 0);
+    }
+
+    async function loadProducts() {
+        setStatus('Carregando...');
+
+        const snapshot = await db.collection('products')
+            .orderBy('fetchedAt', 'desc')
+            .limit(PAGE_SIZE)
+            .get();
+
+        const docs = snapshot.docs.filter((doc) => !doc.get('mergedInto'));
+        const clicks = await Promise.all(docs.map((doc) => clickCount(doc.ref)));
+
+        products = docs.map((doc, i) => ({ id: doc.id, ref: doc.ref, ...doc.data(), clicks: clicks[i] }));
+        render();
+        setStatus(`${products.length} produtos`);
+    }
+
+    // ========================================================================
+    // RENDER
+    // ========================================================================
+
+    function postedCell(p) {
+        if (!p.posted) return '<span class="badge">Não</span>';
+
+        const groups = Object.keys(p.postedTo || {});
+        const label = groups.length ? groups.map(escapeHtml).join(', ') : 'Sim';
+        return `<span class="badge ok">${label}</span><br><small>${formatDate(p.lastPostedAt || p.postedAt)}</small>`;
+    }
+
+    const CREATIVE_STATUS_LABELS = {
+        pending: 'Criativo pendente',
+        rendering: 'Gerando criativo',
+        failed: 'Criativo falhou',
+    };
+
+    function creativeStatusBadge(p) {
+        const label = CREATIVE_STATUS_LABELS[p.creativeStatus];
+        if (!label) return '';
+
+        const cls = p.creativeStatus === 'failed' ? 'badge failed' : 'badge';
+        const title = p.creativeLastError ? ` title="${escapeHtml(p.creativeLastError)}"` : '';
+        return `<br><span class="${cls}"${title}>${label}</span>`;
+    }
+
+    function row(p) {
+        const image = p.creativeUrl || p.imageUrl;
+        const discount = p.discount ? ` <small>-${Math.round(p.discount)}%</small>` : '';
+        const low = p.isHistoricalLow ? ' <span class="badge low">Menor preço</span>' : '';
+
+        return `
+            <tr data-id="${escapeHtml(p.id)}" class="${p.hidden ? 'is-hidden' : ''}">
+                <td>${image ? `<a href="${escapeHtml(image)}" target="_blank" rel="noopener"><img class="thumb" src="${escapeHtml(image)}" alt=""></a>` : ''}${creativeStatusBadge(p)}</td>
+                <td class="title">
+                    <a href="${escapeHtml(p.affiliateLink || p.dealUrl || '#')}" target="_blank" rel="noopener">${escapeHtml(p.title)}</a>
+                    <small>${escapeHtml(p.category || '')} · ${escapeHtml(p.source || '')} · ${formatDate(p.fetchedAt)}</small>
+                </td>
+                <td>${p.dealScore ?? '-'}</td>
+                <td>${formatPrice(p.price)}${discount}${low}</td>
+                <td>${postedCell(p)}</td>
+                <td>${p.clicks}</td>
+                <td class="actions">${canEdit ? `
+                    <button data-action="creative">${p.creativeUrl ? 'Regerar criativo' : 'Gerar criativo'}</button>
+                    ${p.posted ? '' : '<button class="secondary" data-action="posted">Marcar postado</button>'}
+                    <button class="secondary" data-action="hide">${p.hidden ? 'Reexibir' : 'Ocultar'}</button>` : ''}
+                </td>
+            </tr>`;
+    }
+
+    function render() {
+        const query = el('search').value.trim().toLowerCase();
+        const sort = el('sort').value;
+        const showHidden = el('showHidden').checked;
+
+        const visible = products
+            .filter((p) => showHidden || !p.hidden)
+            .filter((p) => !query || (p.title || '').toLowerCase().includes(query))
+            .sort((a, b) => {
+                if (sort === 'fetchedAt') return 0; // Already ordered by Firestore
+                return (b[sort] || 0) - (a[sort] || 0);
+            });
+
+        el('products').innerHTML = visible.map(row).join('');
+    }
+
+    // ========================================================================
+    // ACTIONS
+    // ========================================================================
+
+    const actions = {
+        async creative(p) {
+            const result = await callApi('/api/generate-creative', { productId: p.id });
+            p.creativeUrl = `${result.creativeUrl}?t=${Date.now()}`;
+            p.creativeStatus = 'ready';
+        },
+
+        async posted(p) {
+            const now = firebase.firestore.Timestamp.now();
+            await p.ref.update({
+                posted: true,
+                lastPostedAt: now,
+                postedGroups: firebase.firestore.FieldValue.arrayUnion('manual'),
+                'postedTo.manual': now,
+            });
+            p.posted = true;
+            p.lastPostedAt = now;
+            p.postedTo = { ...(p.postedTo || {}), manual: now };
+        },
+
+        async hide(p) {
+            await p.ref.update({ hidden: !p.hidden });
+            p.hidden = !p.hidden;
+        },
+    };
+
+    el('products').addEventListener('click', async (event) => {
+        const button = event.target.closest('button[data-action]');
+        if (!button) return;
+
+        const id = button.closest('tr').dataset.id;
+        const product = products.find((p) => p.id === id);
+        const action = button.dataset.action;
+
+        button.disabled = true;
+        try {
+            await actions[action](product);
+            render();
+        } catch (err) {
+            console.error(err);
+            alert(`Falha: ${err.message}`);
+            button.disabled = false;
+        }
+    });
+
+    el('fetchProducts').addEventListener('click', async () => {
+        const button = el('fetchProducts');
+        button.disabled = true;
+        setStatus('Buscando ofertas (pode levar alguns minutos)...');
+
+        try {
+            const result = await callApi('/api/fetch-products');
+            setStatus(`${result.dealsDiscovered} ofertas encontradas, ${result.newProducts} novas`);
+            await loadProducts();
+        } catch (err) {
+            setStatus(`Falha na busca: ${err.message}`);
+        } finally {
+            button.disabled = false;
+        }
+    });
+
+    el('reload').addEventListener('click', () => loadProducts().catch((err) => setStatus(err.message)));
+    el('search').addEventListener('input', render);
+    el('sort').addEventListener('change', render);
+    el('showHidden').addEventListener('change', render);
+
+    // ========================================================================
+    // AUTH
+    // ========================================================================
+
+    el('signIn').addEventListener('click', () => {
+        auth.signInWithPopup(new firebase.auth.GoogleAuthProvider()).catch((err) => alert(err.message));
+    });
+    el('signOut').addEventListener('click', () => auth.signOut());
+    el('signOutDenied').addEventListener('click', () => auth.signOut());
+
+    auth.onAuthStateChanged(async (user) => {
+        el('userBox').classList.toggle('hidden', !user);
+
+        if (!user) {
+            show('loginView');
+            return;
+        }
+
+        el('userEmail').textContent = user.email || user.uid;
+
+        // Users can read their own admins/{uid} doc; no doc means no access
+        let role = null;
+        try {
+            const adminDoc = await db.collection('admins').doc(user.uid).get();
+            role = adminDoc.get('role');
+        } catch (err) {
+            console.error(err);
+        }
+        if (!ROLES.includes(role)) {
+            show('deniedView');
+            return;
+        }
+
+        canEdit = role !== 'viewer';
+        el('fetchProducts').classList.toggle('hidden', !canEdit);
+
+        show('appView');
+        loadProducts().catch((err) => setStatus(`Erro: ${err.message}`));
+    });
+})();
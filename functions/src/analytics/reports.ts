@@ -0,0 +1,318 @@
+/**
+ * Analytics Reports - Click reports over a date range
+ *
+ * Reports read the daily rollups (clickRollups), never the raw `clicks`
+ * collection: product rollups for the overall top products, group rollups
+ * and their country / hour / product breakdowns for everything else. Only
+ * human clicks are counted. Days are BRT days.
+ *
+ * - topProducts:   products with the most clicks
+ * - groups:        clicks per utm_source/groupId, bucketed by granularity
+ * - countries:     clicks per country
+ * - hours:         clicks per BRT hour of day
+ * - conversion:    posts sent per group vs. posts that got clicked
+ * - summary:       totals, classification breakdown and fetch metrics
+ */
+
+import * as admin from "firebase-admin";
+import { dayKey, dayStart } from "../clickCounters";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    DEFAULT_RANGE_DAYS: 7,
+    MAX_RANGE_DAYS: 366,
+    DEFAULT_LIMIT: 20,
+    MAX_LIMIT: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Granularity = "day" | "week" | "month";
+
+export interface ReportRange {
+    from: string;  // YYYY-MM-DD (BRT, inclusive)
+    to: string;    // YYYY-MM-DD (BRT, inclusive)
+    granularity: Granularity;
+    limit: number;
+    groupId?: string;
+}
+
+interface Rollup {
+    day: string;
+    key: string;
+    clicks: number;
+    byClassification: Record<string, number>;
+    byCountry: Record<string, number>;   // Group rollups only
+    byHour: Record<string, number>;
+    byProduct: Record<string, number>;
+}
+
+// ============================================================================
+// PARAMETERS
+// ============================================================================
+
+/**
+ * Parse and validate query parameters. Throws with a user-facing message.
+ */
+export function parseReportRange(query: Record<string, unknown>, now = Date.now()): ReportRange {
+    const isDay = (d: string) => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(Date.parse(d));
+
+    const to = query.to?.toString() || dayKey(now);
+    const from = query.from?.toString() || dayKey(dayStart(to) - (CONFIG.DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+    if (!isDay(from) || !isDay(to)) throw new Error("from/to must be dates in YYYY-MM-DD format");
+    if (from > to) throw new Error("from must not be after to");
+    if ((dayStart(to) - dayStart(from)) / DAY_MS >= CONFIG.MAX_RANGE_DAYS) {
+        throw new Error(`Range must be at most ${CONFIG.MAX_RANGE_DAYS} days`);
+    }
+
+    const granularity = (query.granularity?.toString() || "day") as Granularity;
+    if (!["day", "week", "month"].includes(granularity)) {
+        throw new Error("granularity must be day, week or month");
+    }
+
+    const limit = Math.min(parseInt(query.limit?.toString() || "", 10) || CONFIG.DEFAULT_LIMIT, CONFIG.MAX_LIMIT);
+
+    return { from, to, granularity, limit, groupId: query.groupId?.toString() || undefined };
+}
+
+/**
+ * Bucket key for a BRT day: the day itself, the Monday of its week, or YYYY-MM
+ */
+export function bucketKey(day: string, granularity: Granularity): string {
+    if (granularity === "month") return day.slice(0, 7);
+    if (granularity === "week") {
+        const date = new Date(`${day}T00:00:00Z`);
+        const mondayOffset = (date.getUTCDay() + 6) % 7;
+        return new Date(date.getTime() - mondayOffset * DAY_MS).toISOString().slice(0, 10);
+    }
+    return day;
+}
+
+function rangeBounds(range: ReportRange) {
+    return {
+        start: admin.firestore.Timestamp.fromMillis(dayStart(range.from)),
+        end: admin.firestore.Timestamp.fromMillis(dayStart(range.to) + DAY_MS),
+    };
+}
+
+function increment(map: Record<string, number>, key: string, amount = 1): void {
+    map[key] = (map[key] || 0) + amount;
+}
+
+// ============================================================================
+// LOADERS
+// ============================================================================
+
+async function loadRollups(
+    db: admin.firestore.Firestore,
+    range: ReportRange,
+    dimension: "product" | "group"
+): Promise<Rollup[]> {
+    const snapshot = await db.collection("clickRollups")
+        .where("dimension", "==", dimension)
+        .where("day", ">=", range.from)
+        .where("day", "<=", range.to)
+        .get();
+
+    return snapshot.docs.map((doc) => ({
+        day: doc.get("day") as string,
+        key: doc.get("key") as string,
+        clicks: (doc.get("clicks") || 0) as number,
+        byClassification: (doc.get("byClassification") || {}) as Record<string, number>,
+        byCountry: (doc.get("byCountry") || {}) as Record<string, number>,
+        byHour: (doc.get("byHour") || {}) as Record<string, number>,
+        byProduct: (doc.get("byProduct") || {}) as Record<string, number>,
+    }));
+}
+
+/**
+ * Group rollups in the range, only the filtered group's with a groupId
+ */
+async function loadGroupRollups(db: admin.firestore.Firestore, range: ReportRange): Promise<Rollup[]> {
+    const rollups = await loadRollups(db, range, "group");
+    return range.groupId ? rollups.filter((r) => r.key === range.groupId) : rollups;
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Most clicked products. Product rollups are not split by group, so a
+ * groupId filter sums that group's per-product breakdown instead.
+ */
+export async function topProductsReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const totals: Record<string, number> = {};
+    if (range.groupId) {
+        (await loadGroupRollups(db, range)).forEach((r) => {
+            Object.entries(r.byProduct).forEach(([productId, clicks]) => increment(totals, productId, clicks));
+        });
+    } else {
+        (await loadRollups(db, range, "product")).forEach((r) => increment(totals, r.key, r.clicks));
+    }
+
+    const top = Object.entries(totals)
+        .filter(([, clicks]) => clicks > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, range.limit);
+
+    const docs = top.length > 0
+        ? await db.getAll(...top.map(([id]) => db.collection("products").doc(id)))
+        : [];
+
+    return top.map(([productId, clicks], i) => ({
+        productId,
+        clicks,
+        title: docs[i]?.get("title") || null,
+        category: docs[i]?.get("category") || null,
+        price: docs[i]?.get("price") ?? null,
+        dealScore: docs[i]?.get("dealScore") ?? null,
+    }));
+}
+
+export async function groupsReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const groups: Record<string, { total: number; series: Record<string, number> }> = {};
+
+    for (const r of await loadGroupRollups(db, range)) {
+        const group = groups[r.key] ||= { total: 0, series: {} };
+        group.total += r.clicks;
+        increment(group.series, bucketKey(r.day, range.granularity), r.clicks);
+    }
+
+    return Object.entries(groups)
+        .map(([groupId, g]) => ({ groupId, clicks: g.total, series: g.series }))
+        .sort((a, b) => b.clicks - a.clicks);
+}
+
+export async function countriesReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const countries: Record<string, number> = {};
+    (await loadGroupRollups(db, range)).forEach((r) => {
+        Object.entries(r.byCountry).forEach(([country, clicks]) => increment(countries, country, clicks));
+    });
+
+    return Object.entries(countries)
+        .map(([country, clicks]) => ({ country, clicks }))
+        .sort((a, b) => b.clicks - a.clicks);
+}
+
+export async function hoursReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, clicks: 0 }));
+
+    (await loadGroupRollups(db, range)).forEach((r) => {
+        Object.entries(r.byHour).forEach(([hour, clicks]) => {
+            hours[Number(hour)].clicks += clicks;
+        });
+    });
+
+    return hours;
+}
+
+/**
+ * Posts sent per group in the range, how many got at least one click from
+ * that group after being posted, and clicks per post. Rollups are daily, so
+ * a post's clicks are counted from the BRT day it was sent (a product is
+ * posted to a group at most once, so earlier clicks from that group are rare).
+ */
+export async function conversionReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const { start, end } = rangeBounds(range);
+
+    const [postsSnap, rollups] = await Promise.all([
+        db.collection("postQueue")
+            .where("status", "==", "sent")
+            .where("sentAt", ">=", start)
+            .where("sentAt", "<", end)
+            .get(),
+        loadGroupRollups(db, range),
+    ]);
+
+    // Daily clicks per group and product
+    const clicksByPost = new Map<string, { day: string; clicks: number }[]>();
+    rollups.forEach((r) => {
+        Object.entries(r.byProduct).forEach(([productId, clicks]) => {
+            const key = `${r.key}_${productId}`;
+            clicksByPost.set(key, [...(clicksByPost.get(key) || []), { day: r.day, clicks }]);
+        });
+    });
+
+    const groups: Record<string, { posts: number; clickedPosts: number; clicks: number }> = {};
+
+    for (const post of postsSnap.docs) {
+        const groupId: string = post.get("groupId");
+        if (range.groupId && groupId !== range.groupId) continue;
+
+        const productId: string = post.get("postedProductId") || post.get("productId");
+        const sentDay = dayKey((post.get("sentAt") as admin.firestore.Timestamp).toMillis());
+        const postClicks = (clicksByPost.get(`${groupId}_${productId}`) || [])
+            .filter((d) => d.day >= sentDay)
+            .reduce((sum, d) => sum + d.clicks, 0);
+
+        const g = groups[groupId] ||= { posts: 0, clickedPosts: 0, clicks: 0 };
+        g.posts++;
+        g.clicks += postClicks;
+        if (postClicks > 0) g.clickedPosts++;
+    }
+
+    return Object.entries(groups)
+        .map(([groupId, g]) => ({
+            groupId,
+            ...g,
+            conversionRate: g.posts > 0 ? Math.round((g.clickedPosts / g.posts) * 1000) / 1000 : 0,
+            clicksPerPost: g.posts > 0 ? Math.round((g.clicks / g.posts) * 100) / 100 : 0,
+        }))
+        .sort((a, b) => b.conversionRate - a.conversionRate);
+}
+
+export async function summaryReport(db: admin.firestore.Firestore, range: ReportRange) {
+    const { start, end } = rangeBounds(range);
+
+    const [rollups, metricsSnap] = await Promise.all([
+        loadGroupRollups(db, range),
+        db.collection("metrics")
+            .where("timestamp", ">=", start)
+            .where("timestamp", "<", end)
+            .get(),
+    ]);
+
+    const byClassification: Record<string, number> = {};
+    const series: Record<string, number> = {};
+    let clicks = 0;
+
+    for (const r of rollups) {
+        clicks += r.clicks;
+        increment(series, bucketKey(r.day, range.granularity), r.clicks);
+        Object.entries(r.byClassification).forEach(([k, v]) => increment(byClassification, k, v));
+    }
+
+    const fetchRuns = metricsSnap.docs.filter((doc) => doc.get("name") === "product_fetch");
+    const newProducts = fetchRuns.reduce((sum, doc) => sum + (doc.get("newProducts") || 0), 0);
+
+    return {
+        clicks,
+        byClassification,
+        series,
+        fetchRuns: fetchRuns.length,
+        newProducts,
+        clicksPerNewProduct: newProducts > 0 ? Math.round((clicks / newProducts) * 100) / 100 : 0,
+    };
+}
+
+export const REPORTS = {
+    "top-products": topProductsReport,
+    "groups": groupsReport,
+    "countries": countriesReport,
+    "hours": hoursReport,
+    "conversion": conversionReport,
+    "summary": summaryReport,
+};
+
+export type ReportName = keyof typeof REPORTS;
+
+export { CONFIG as ANALYTICS_CONFIG };
@@ -0,0 +1,56 @@
+/**
+ * Analytics API - Authenticated click reports
+ *
+ * GET /api/analytics/<report>?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *     &granularity=day|week|month&limit=20&groupId=<utm_source>
+ *
+ * Reports: top-products, groups, countries, hours, conversion, summary
+ * (see analytics/reports.ts). Requires the viewer role (see auth.ts).
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onRequest } from "firebase-functions/v2/https";
+import { ALLOWED_ORIGINS, requireRole } from "./auth";
+import { parseReportRange, ReportName, REPORTS } from "./analytics/reports";
+
+const db = getFirestore();
+
+export const analytics = onRequest(
+    {
+        memory: "512MiB",
+        timeoutSeconds: 120,
+        cors: ALLOWED_ORIGINS,
+    },
+    async (req, res) => {
+        if (req.method !== "GET") {
+            res.status(405).json({ error: "Method not allowed. Use GET." });
+            return;
+        }
+
+        if (!(await requireRole(req, res, "viewer"))) return;
+
+        // Report name from ?report= or the last path segment (/api/analytics/<report>)
+        const report = (req.query.report?.toString() || req.path.split("/").filter(Boolean).pop() || "") as ReportName;
+        if (!Object.prototype.hasOwnProperty.call(REPORTS, report)) {
+            res.status(404).json({ error: `Unknown report. Available: ${Object.keys(REPORTS).join(", ")}` });
+            return;
+        }
+
+        let range;
+        try {
+            range = parseReportRange(req.query);
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            return;
+        }
+
+        try {
+            const data = await REPORTS[report](db, range);
+            res.set("Cache-Control", "private, max-age=60");
+            res.json({ report, range, data });
+        } catch (error) {
+            console.error(`Error building ${report} report:`, error);
+            res.status(500).json({ error: "Failed to build report" });
+        }
+    }
+);
@@ -0,0 +1,153 @@
+/**
+ * Auth - Role-based authorization for HTTP functions
+ *
+ * Callers authenticate with either:
+ * - a Firebase ID token (Authorization: Bearer <token>); the role comes from
+ *   admins/{uid}.role, the same document firestore.rules checks
+ * - an API key (X-API-Key: <key>) for scripts and cron jobs; keys are stored
+ *   hashed in apiKeys/{sha256(key)} as { name, role, active }
+ *
+ * Roles are ordered: viewer < editor < admin. A route asks for the lowest
+ * role it accepts (requireRole). CORS for protected routes is limited to
+ * our own hosting origins (ALLOWED_ORIGINS).
+ */
+
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import type { Response } from "express";
+import { Request } from "firebase-functions/v2/https";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID || "ihuprojectmanager";
+
+/**
+ * Origins allowed to call protected endpoints from a browser
+ */
+export const ALLOWED_ORIGINS: (string | RegExp)[] = [
+    `https://${PROJECT_ID}.web.app`,
+    `https://${PROJECT_ID}.firebaseapp.com`,
+    ...(process.env.SITE_URL ? [process.env.SITE_URL.replace(/\/$/, "")] : []),
+    /^http:\/\/localhost(:\d+)?$/,
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Role = "viewer" | "editor" | "admin";
+
+const ROLE_LEVEL: Record<Role, number> = { viewer: 1, editor: 2, admin: 3 };
+
+export interface AuthContext {
+    method: "idToken" | "apiKey";
+    uid: string;            // Firebase uid, or "apikey:<name>"
+    email: string | null;
+    role: Role;
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+function isRole(value: unknown): value is Role {
+    return typeof value === "string" && value in ROLE_LEVEL;
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+    return ROLE_LEVEL[role] >= ROLE_LEVEL[required];
+}
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+async function authenticateIdToken(token: string): Promise<AuthContext | null> {
+    const decoded = await admin.auth().verifyIdToken(token);
+    const adminDoc = await admin.firestore().collection("admins").doc(decoded.uid).get();
+    const role = adminDoc.get("role");
+
+    if (!isRole(role)) return null;
+    return { method: "idToken", uid: decoded.uid, email: decoded.email || null, role };
+}
+
+async function authenticateApiKey(key: string): Promise<AuthContext | null> {
+    const keyRef = admin.firestore().collection("apiKeys").doc(hashApiKey(key));
+    const keyDoc = await keyRef.get();
+    const role = keyDoc.get("role");
+
+    if (!keyDoc.exists || keyDoc.get("active") === false || !isRole(role)) return null;
+
+    // Best effort: knowing which keys are still in use helps rotating them
+    keyRef.update({ lastUsedAt: admin.firestore.FieldValue.serverTimestamp() }).catch(() => undefined);
+
+    return { method: "apiKey", uid: `apikey:${keyDoc.get("name") || keyDoc.id.slice(0, 8)}`, email: null, role };
+}
+
+/**
+ * Resolve the caller of a request, or null if no valid credentials
+ * were sent or the user has no role
+ */
+export async function authenticate(req: Request): Promise<AuthContext | null> {
+    const bearer = (req.headers.authorization || "").match(/^Bearer\s+(.+)$/i)?.[1];
+    const apiKey = req.headers["x-api-key"]?.toString();
+
+    try {
+        if (bearer) return await authenticateIdToken(bearer);
+        if (apiKey) return await authenticateApiKey(apiKey);
+    } catch (error) {
+        console.warn("Rejected credentials:", error instanceof Error ? error.message : String(error));
+    }
+
+    return null;
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Authorize a request for `required` role. Sends 401/403 and returns null
+ * when the caller is not allowed; otherwise returns the caller.
+ */
+export async function requireRole(req: Request, res: Response, required: Role): Promise<AuthContext | null> {
+    const caller = await authenticate(req);
+
+    if (!caller) {
+        res.status(401).json({ error: "Authentication required (Firebase ID token or X-API-Key)" });
+        return null;
+    }
+
+    if (!hasRole(caller.role, required)) {
+        res.status(403).json({ error: `Requires ${required} role (you have ${caller.role})` });
+        return null;
+    }
+
+    return caller;
+}
+
+/**
+ * CORS for protected v1 functions (v2 functions pass ALLOWED_ORIGINS as
+ * their `cors` option). Returns true when the request was a preflight and
+ * has been answered.
+ */
+export function handleCors(req: Request, res: Response, methods = "POST"): boolean {
+    const origin = req.headers.origin;
+    const allowed = !!origin && ALLOWED_ORIGINS.some((o) => (typeof o === "string" ? o === origin : o.test(origin)));
+
+    if (allowed) {
+        res.set("Access-Control-Allow-Origin", origin);
+        res.set("Vary", "Origin");
+    }
+
+    if (req.method === "OPTIONS") {
+        res.set("Access-Control-Allow-Methods", methods);
+        res.set("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key");
+        res.status(204).send("");
+        return true;
+    }
+
+    return false;
+}
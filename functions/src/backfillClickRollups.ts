@@ -0,0 +1,52 @@
+/**
+ * Backfill Click Rollups - Rebuild clickRollups (and optionally product
+ * click counters) from the raw `clicks` collection
+ *
+ * USAGE:
+ *   npm run backfill-clicks -- --from 2026-01-01 --to 2026-01-31
+ *   npm run backfill-clicks -- --from 2026-01-01 --counters
+ *
+ * --from / --to   BRT days to rebuild (inclusive, --to defaults to today)
+ * --counters      also rebuild every product's click counter shards
+ *
+ * Uses Application Default Credentials: set GOOGLE_APPLICATION_CREDENTIALS
+ * to a service account key and FIREBASE_PROJECT_ID (or GCLOUD_PROJECT).
+ */
+
+import * as admin from "firebase-admin";
+import { dayKey, rebuildClickRollups } from "./clickCounters";
+
+function argValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+    const fromDay = argValue("--from");
+    const toDay = argValue("--to") || dayKey(Date.now());
+    const counters = process.argv.includes("--counters");
+
+    const isDay = (d: string | undefined) => !!d && /^\d{4}-\d{2}-\d{2}$/.test(d);
+    if (!isDay(fromDay) || !isDay(toDay)) {
+        console.error("Usage: backfillClickRollups --from YYYY-MM-DD [--to YYYY-MM-DD] [--counters]");
+        process.exit(1);
+    }
+
+    admin.initializeApp({
+        projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT,
+    });
+
+    console.log(`Rebuilding click rollups ${fromDay} → ${toDay}${counters ? " (with product counters)" : ""}...`);
+    const result = await rebuildClickRollups(admin.firestore(), fromDay as string, toDay, { counters });
+
+    console.log(`Clicks scanned: ${result.clicksScanned}`);
+    console.log(`Rollups written: ${result.rollupsWritten}, deleted: ${result.rollupsDeleted}`);
+    if (counters) console.log(`Product counters rebuilt: ${result.productsCounted}`);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Backfill failed:", error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,40 @@
+/**
+ * Backfill Creative Status - Set creativeStatus on products created before
+ * the field existed, so batch generation (which selects "pending") sees them
+ *
+ * USAGE:
+ *   npm run backfill-creative-status
+ *   npm run backfill-creative-status -- --dry-run
+ *
+ * --dry-run   only count the products that would be updated
+ *
+ * Products whose creative still matches their data become "ready", the
+ * rest "pending"; run generateAllCreatives afterwards to render those.
+ *
+ * Uses Application Default Credentials: set GOOGLE_APPLICATION_CREDENTIALS
+ * to a service account key and FIREBASE_PROJECT_ID (or GCLOUD_PROJECT).
+ */
+
+import * as admin from "firebase-admin";
+import { backfillCreativeStatus } from "./creative/creativeStatus";
+
+async function main(): Promise<void> {
+    const dryRun = process.argv.includes("--dry-run");
+
+    admin.initializeApp({
+        projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT,
+    });
+
+    console.log(`Backfilling creative status${dryRun ? " (dry run)" : ""}...`);
+    const result = await backfillCreativeStatus(admin.firestore(), { dryRun });
+
+    console.log(`Products scanned: ${result.scanned}`);
+    console.log(`Products ${dryRun ? "to update" : "updated"}: ${result.updated} (${result.ready} ready, ${result.updated - result.ready} pending)`);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Backfill failed:", error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,122 @@
+/**
+ * Click Classification - Separate human clicks from noise
+ *
+ * Every click is stored, but tagged so counts and reports only use humans:
+ * - preview:   link-preview crawlers (WhatsApp, Telegram, Facebook...)
+ * - bot:       crawlers, uptime checkers, HTTP libraries, empty user agents,
+ *              and /r/ page hits that never ran the page's JavaScript
+ * - duplicate: same ipHash clicked the same product within the window
+ * - human:     everything else
+ */
+
+import * as admin from "firebase-admin";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Repeat clicks from the same ipHash on the same product within this
+    // window are duplicates
+    DUPLICATE_WINDOW_MINUTES: 30,
+};
+
+const PREVIEW_USER_AGENTS = /whatsapp|telegrambot|facebookexternalhit|facebot|twitterbot|slackbot|discordbot|linkedinbot|skypeuripreview|pinterest|redditbot|embedly|vkshare|applebot/i;
+
+const BOT_USER_AGENTS = /\bbot\b|bot\/|crawler|spider|crawl|slurp|uptimerobot|pingdom|statuscake|site24x7|monitor|headless|phantomjs|lighthouse|curl|wget|python-requests|python-urllib|aiohttp|httpx|node-fetch|axios|go-http-client|okhttp|java\/|libwww|scrapy|postman/i;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClickClassification = "human" | "bot" | "preview" | "duplicate";
+
+export interface ClickSignals {
+    userAgent: string;
+    via: "page" | "redirect";
+    jsExecuted: boolean;          // /r/ page returned a valid click token (clickToken.ts)
+    recentHumanClick?: boolean;   // Same ipHash + product clicked within the window
+}
+
+export interface ClickClassificationResult {
+    classification: ClickClassification;
+    reasons: string[];
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+export function isPreviewUserAgent(userAgent: string): boolean {
+    return PREVIEW_USER_AGENTS.test(userAgent);
+}
+
+/**
+ * Classify by user agent and request shape only (no Firestore access).
+ * Returns null when the click looks human so far.
+ */
+export function classifyBySignature(signals: ClickSignals): ClickClassificationResult | null {
+    const ua = signals.userAgent.trim();
+
+    if (isPreviewUserAgent(ua)) {
+        return { classification: "preview", reasons: ["preview_user_agent"] };
+    }
+    if (!ua || ua === "unknown") {
+        return { classification: "bot", reasons: ["missing_user_agent"] };
+    }
+    if (BOT_USER_AGENTS.test(ua)) {
+        return { classification: "bot", reasons: ["bot_user_agent"] };
+    }
+    if (signals.via === "page" && !signals.jsExecuted) {
+        return { classification: "bot", reasons: ["no_javascript"] };
+    }
+
+    return null;
+}
+
+export function classifyClick(signals: ClickSignals): ClickClassificationResult {
+    const bySignature = classifyBySignature(signals);
+    if (bySignature) return bySignature;
+
+    if (signals.recentHumanClick) {
+        return { classification: "duplicate", reasons: ["repeat_within_window"] };
+    }
+
+    return { classification: "human", reasons: [] };
+}
+
+/**
+ * Whether a click should count in totals and reports. Clicks recorded
+ * before classification existed have no tag and are counted.
+ */
+export function isCountableClick(data: admin.firestore.DocumentData): boolean {
+    return !data.classification || data.classification === "human";
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Whether this ipHash already has a human click on the product within the
+ * duplicate window
+ */
+export async function hasRecentHumanClick(
+    db: admin.firestore.Firestore,
+    ipHash: string,
+    productId: string,
+    now = Date.now()
+): Promise<boolean> {
+    const since = admin.firestore.Timestamp.fromMillis(now - CONFIG.DUPLICATE_WINDOW_MINUTES * 60 * 1000);
+
+    const snapshot = await db.collection("clicks")
+        .where("ipHash", "==", ipHash)
+        .where("productId", "==", productId)
+        .where("createdAt", ">=", since)
+        .limit(10)
+        .get();
+
+    return snapshot.docs.some((doc) => doc.get("classification") === "human");
+}
+
+export { CONFIG as CLICK_CLASSIFICATION_CONFIG };
@@ -0,0 +1,325 @@
+/**
+ * Click Counters - Sharded per-product counters and daily rollups
+ *
+ * Click ingestion writes, in the same batch as the raw click:
+ * - products/{id}/clickShards/{n}: human clicks spread over N shards, so a
+ *   viral product doesn't hit Firestore's per-document write limit.
+ *   The total is the sum of the shards (getProductClickCount); products
+ *   keep no click count field of their own.
+ * - clickRollups/{day}_product_{id}_{n} and clickRollups/{day}_group_{groupId}_{n}:
+ *   per-day totals (BRT day) broken down by classification, sharded the
+ *   same way (a group's rollup takes every click posted to it). Readers
+ *   sum the docs sharing day / dimension / key, so dashboards still read a
+ *   handful of documents instead of scanning `clicks`.
+ *   Group rollups also break their human clicks down by country, BRT hour
+ *   of day and product (byCountry / byHour / byProduct maps), which serve
+ *   the country, hour, conversion and per-group product reports.
+ *
+ * rebuildClickRollups() recomputes both from the raw clicks
+ * (see backfillClickRollups.ts for the command line entry point).
+ */
+
+import * as admin from "firebase-admin";
+import { ClickClassification } from "./clickClassification";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Shards per product counter and per daily rollup (~1 sustained write/s each)
+    SHARD_COUNT: 10,
+
+    // Rollup days are BRT calendar days (UTC-3, no DST)
+    UTC_OFFSET_HOURS: -3,
+
+    // Raw clicks read per page when rebuilding
+    REBUILD_PAGE_SIZE: 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RollupDimension = "product" | "group";
+
+export interface ClickEvent {
+    productId: string;
+    groupId: string;
+    country: string;
+    classification: ClickClassification;
+    at: number;  // ms since epoch
+}
+
+export interface RebuildResult {
+    clicksScanned: number;
+    rollupsWritten: number;
+    rollupsDeleted: number;
+    productsCounted: number;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * BRT calendar day (YYYY-MM-DD) for a timestamp
+ */
+export function dayKey(ms: number): string {
+    return new Date(ms + CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * UTC instant at which a BRT day starts
+ */
+export function dayStart(day: string): number {
+    return Date.parse(`${day}T00:00:00Z`) - CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * BRT hour of day ("00"-"23") for a timestamp
+ */
+export function hourKey(ms: number): string {
+    return new Date(ms + CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000).toISOString().slice(11, 13);
+}
+
+export function rollupId(day: string, dimension: RollupDimension, key: string, shard = 0): string {
+    // Document ids cannot contain "/"
+    return `${day}_${dimension}_${key.replace(/\//g, "_")}_${shard}`;
+}
+
+function randomShard(): number {
+    return Math.floor(Math.random() * CONFIG.SHARD_COUNT);
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+function rollupIncrement(
+    day: string,
+    dimension: RollupDimension,
+    key: string,
+    classification: ClickClassification
+) {
+    const increment = admin.firestore.FieldValue.increment(1);
+    return {
+        day,
+        dimension,
+        key,
+        ...(classification === "human" ? { clicks: increment } : {}),
+        byClassification: { [classification]: increment },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+}
+
+/**
+ * Breakdown of a group rollup's human clicks
+ */
+function breakdownIncrement(event: ClickEvent) {
+    if (event.classification !== "human") return {};
+    const increment = admin.firestore.FieldValue.increment(1);
+    return {
+        byCountry: { [event.country]: increment },
+        byHour: { [hourKey(event.at)]: increment },
+        byProduct: { [event.productId]: increment },
+    };
+}
+
+/**
+ * Queue counter and rollup increments for a click on the caller's batch
+ */
+export function applyClickToCounters(
+    batch: admin.firestore.WriteBatch,
+    db: admin.firestore.Firestore,
+    event: ClickEvent
+): void {
+    const day = dayKey(event.at);
+    const shard = randomShard();
+
+    if (event.classification === "human") {
+        batch.set(
+            db.collection("products").doc(event.productId).collection("clickShards").doc(shard.toString()),
+            { count: admin.firestore.FieldValue.increment(1) },
+            { merge: true }
+        );
+    }
+
+    batch.set(
+        db.collection("clickRollups").doc(rollupId(day, "product", event.productId, shard)),
+        rollupIncrement(day, "product", event.productId, event.classification),
+        { merge: true }
+    );
+    batch.set(
+        db.collection("clickRollups").doc(rollupId(day, "group", event.groupId, shard)),
+        { ...rollupIncrement(day, "group", event.groupId, event.classification), ...breakdownIncrement(event) },
+        { merge: true }
+    );
+}
+
+/**
+ * Human clicks for a product (sum of its counter shards)
+ */
+export async function getProductClickCount(db: admin.firestore.Firestore, productId: string): Promise<number> {
+    const shards = await db.collection("products").doc(productId).collection("clickShards").get();
+    return shards.docs.reduce((sum, doc) => sum + (doc.get("count") || 0), 0);
+}
+
+// ============================================================================
+// REBUILD
+// ============================================================================
+
+type RollupTotals = Record<ClickClassification, number>;
+
+interface RollupBreakdown {
+    byCountry: Record<string, number>;
+    byHour: Record<string, number>;
+    byProduct: Record<string, number>;
+}
+
+interface RebuiltRollup {
+    day: string;
+    dimension: RollupDimension;
+    key: string;
+    totals: RollupTotals;
+    breakdown: RollupBreakdown | null;  // Group rollups only
+}
+
+function emptyTotals(): RollupTotals {
+    return { human: 0, bot: 0, preview: 0, duplicate: 0 };
+}
+
+function increment(map: Record<string, number>, key: string): void {
+    map[key] = (map[key] || 0) + 1;
+}
+
+/**
+ * Recompute rollups for the BRT days in [fromDay, toDay] from raw clicks
+ * (each total written to shard 0, other shards deleted). With `counters`,
+ * also rebuilds every product's shards from all clicks ever recorded (the
+ * range is then ignored for counters).
+ * Clicks recorded before classification existed count as human, and
+ * clicks without a country as "unknown".
+ */
+export async function rebuildClickRollups(
+    db: admin.firestore.Firestore,
+    fromDay: string,
+    toDay: string,
+    options: { counters?: boolean } = {}
+): Promise<RebuildResult> {
+    const start = dayStart(fromDay);
+    const end = dayStart(toDay) + DAY_MS;
+    const result: RebuildResult = { clicksScanned: 0, rollupsWritten: 0, rollupsDeleted: 0, productsCounted: 0 };
+
+    const rollups = new Map<string, RebuiltRollup>();
+    const productTotals = new Map<string, number>();
+
+    // Counters need every click, including ones recorded before createdAt
+    // existed: page those by document id instead of by createdAt
+    const clicks: admin.firestore.Query = options.counters
+        ? db.collection("clicks").orderBy(admin.firestore.FieldPath.documentId())
+        : db.collection("clicks")
+            .where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(start))
+            .where("createdAt", "<", admin.firestore.Timestamp.fromMillis(end))
+            .orderBy("createdAt");
+
+    let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
+    for (;;) {
+        let query = clicks
+            .select("productId", "groupId", "country", "classification", "createdAt", "timestamp")
+            .limit(CONFIG.REBUILD_PAGE_SIZE);
+        if (cursor) query = query.startAfter(cursor);
+
+        const page = await query.get();
+
+        for (const doc of page.docs) {
+            result.clicksScanned++;
+
+            const createdAt = (doc.get("createdAt") || doc.get("timestamp")) as admin.firestore.Timestamp | undefined;
+            const at = createdAt ? createdAt.toMillis() : 0;
+            const classification: ClickClassification = doc.get("classification") || "human";
+            const productId: string = doc.get("productId");
+            const groupId: string = doc.get("groupId") || "direct";
+            const country: string = doc.get("country") || "unknown";
+
+            if (classification === "human") {
+                productTotals.set(productId, (productTotals.get(productId) || 0) + 1);
+            }
+
+            if (at < start || at >= end) continue;
+
+            const day = dayKey(at);
+            for (const [dimension, key] of [["product", productId], ["group", groupId]] as [RollupDimension, string][]) {
+                const id = rollupId(day, dimension, key);
+                const entry = rollups.get(id) || {
+                    day,
+                    dimension,
+                    key,
+                    totals: emptyTotals(),
+                    breakdown: dimension === "group" ? { byCountry: {}, byHour: {}, byProduct: {} } : null,
+                };
+                entry.totals[classification]++;
+                if (entry.breakdown && classification === "human") {
+                    increment(entry.breakdown.byCountry, country);
+                    increment(entry.breakdown.byHour, hourKey(at));
+                    increment(entry.breakdown.byProduct, productId);
+                }
+                rollups.set(id, entry);
+            }
+        }
+
+        if (page.size < CONFIG.REBUILD_PAGE_SIZE) break;
+        cursor = page.docs[page.docs.length - 1];
+    }
+
+    const writer = db.bulkWriter();
+
+    // Drop existing rollups in range so days without clicks end up empty
+    const existing = await db.collection("clickRollups")
+        .where("day", ">=", fromDay)
+        .where("day", "<=", toDay)
+        .select()
+        .get();
+    existing.docs.forEach((doc) => {
+        if (!rollups.has(doc.id)) {
+            writer.delete(doc.ref);
+            result.rollupsDeleted++;
+        }
+    });
+
+    for (const [id, entry] of rollups) {
+        writer.set(db.collection("clickRollups").doc(id), {
+            day: entry.day,
+            dimension: entry.dimension,
+            key: entry.key,
+            clicks: entry.totals.human,
+            byClassification: entry.totals,
+            ...entry.breakdown,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        result.rollupsWritten++;
+    }
+
+    if (options.counters) {
+        for (const [productId, total] of productTotals) {
+            const productRef = db.collection("products").doc(productId);
+            const [product, shards] = await Promise.all([
+                productRef.get(),
+                productRef.collection("clickShards").select().get(),
+            ]);
+            if (!product.exists) continue;
+
+            // Collapse the total into shard 0
+            shards.docs.filter((doc) => doc.id !== "0").forEach((doc) => writer.delete(doc.ref));
+            writer.set(productRef.collection("clickShards").doc("0"), { count: total });
+            result.productsCounted++;
+        }
+    }
+
+    await writer.close();
+    return result;
+}
+
+export { CONFIG as CLICK_COUNTERS_CONFIG };
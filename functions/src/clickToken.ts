@@ -0,0 +1,74 @@
+/**
+ * Click Token - Proof that the /r/ page ran its JavaScript
+ *
+ * getProduct (fetched by the page's script) issues a token signed with
+ * CLICK_TOKEN_SECRET for the product and client; the page sends it back to
+ * trackClick. A click without a valid token never ran the page, whatever
+ * else its body says.
+ *
+ * Token format: <issuedAt ms>.<base64url HMAC-SHA256 of productId:ipHash:issuedAt>
+ */
+
+import * as crypto from "crypto";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // The page redirects 2 s after loading; slow connections get some slack
+    MAX_AGE_MS: 10 * 60 * 1000,
+
+    // Longest token accepted in a trackClick body
+    MAX_TOKEN_LENGTH: 128,
+};
+
+let missingSecretWarned = false;
+
+/**
+ * Signing secret, or null when CLICK_TOKEN_SECRET is not configured: no
+ * tokens are issued and every /r/ page click fails the JavaScript check
+ * (warned once per instance)
+ */
+export function clickTokenSecret(): string | null {
+    const secret = process.env.CLICK_TOKEN_SECRET || null;
+    if (!secret && !missingSecretWarned) {
+        missingSecretWarned = true;
+        console.warn("CLICK_TOKEN_SECRET is not set: /r/ page clicks will be classified as bots");
+    }
+    return secret;
+}
+
+function sign(secret: string, productId: string, ipHash: string, issuedAt: number): string {
+    return crypto.createHmac("sha256", secret)
+        .update(`${productId}:${ipHash}:${issuedAt}`)
+        .digest("base64url");
+}
+
+export function issueClickToken(secret: string, productId: string, ipHash: string, now = Date.now()): string {
+    return `${now}.${sign(secret, productId, ipHash, now)}`;
+}
+
+/**
+ * Whether the token was issued for this product and client within MAX_AGE_MS
+ */
+export function verifyClickToken(
+    secret: string,
+    token: unknown,
+    productId: string,
+    ipHash: string,
+    now = Date.now()
+): boolean {
+    if (typeof token !== "string" || token.length > CONFIG.MAX_TOKEN_LENGTH) return false;
+
+    const [issuedAtText, signature] = token.split(".");
+    const issuedAt = Number(issuedAtText);
+    if (!signature || !Number.isSafeInteger(issuedAt)) return false;
+    if (issuedAt > now || now - issuedAt > CONFIG.MAX_AGE_MS) return false;
+
+    const expected = Buffer.from(sign(secret, productId, ipHash, issuedAt));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export { CONFIG as CLICK_TOKEN_CONFIG };
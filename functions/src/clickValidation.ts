@@ -0,0 +1,83 @@
+/**
+ * Click Validation - Checks on client-sent click data
+ *
+ * trackClick bodies come from the public /r/ page: the product id must be
+ * a usable document id and the client timestamp close to server time.
+ * goRedirect validates the product id from its path the same way.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Client timestamps further than this from server time are rejected
+    MAX_CLOCK_SKEW_MS: 10 * 60 * 1000,
+
+    // Longest user agent stored with a click
+    MAX_USER_AGENT_LENGTH: 512,
+
+    MAX_PRODUCT_ID_LENGTH: 128,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrackClickBody {
+    productId: string;
+    timestamp?: number;
+    userAgent?: string;
+    clickToken?: string;    // From getProduct (clickToken.ts)
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Product ids are ASINs or generated deal ids: short, and usable as a
+ * Firestore document id (no slashes)
+ */
+export function isValidProductId(productId: string): boolean {
+    return productId.length <= CONFIG.MAX_PRODUCT_ID_LENGTH &&
+        !productId.includes("/") &&
+        productId !== "." &&
+        productId !== "..";
+}
+
+/**
+ * Product id from the last segment of a /go/ path. A malformed escape
+ * (e.g. a lone "%") yields "" so the caller falls back instead of throwing.
+ */
+export function productIdFromPath(path: string): string {
+    const segment = path.split("/").filter(Boolean).pop() || "";
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * Validate the trackClick body. Returns an error message, or null when
+ * the body is acceptable.
+ */
+export function validateTrackClickBody(body: Partial<Record<keyof TrackClickBody, unknown>>, now = Date.now()): string | null {
+    const { productId, timestamp, userAgent, clickToken } = body;
+
+    if (typeof productId !== "string" || !productId) return "productId is required";
+    if (!isValidProductId(productId)) return "productId is invalid";
+
+    if (timestamp !== undefined) {
+        if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) return "timestamp must be a number (ms)";
+        if (Math.abs(timestamp - now) > CONFIG.MAX_CLOCK_SKEW_MS) return "timestamp is too far from server time";
+    }
+
+    if (userAgent !== undefined && typeof userAgent !== "string") return "userAgent must be a string";
+    if (clickToken !== undefined && clickToken !== null && typeof clickToken !== "string") return "clickToken must be a string";
+
+    return null;
+}
+
+export { CONFIG as CLICK_VALIDATION_CONFIG };
@@ -0,0 +1,290 @@
+/**
+ * Creative Animation - Short animated creatives for Reels and Status
+ *
+ * Builds a 5-8 s loop (animated WebP or GIF, encoded by Sharp) from the
+ * same layers as the still creative (renderer.ts buildCreativeLayers):
+ *   0.0 s  product zooms in (from ZOOM.from), title already on screen
+ *   1.5 s  price slides up within its slot and fades in
+ *   2.0 s  rating / ribbon / coupon stickers fade in
+ *   2.3 s  discount badge pops in, then pulses until the end
+ * The last frame is the still creative, held for LAST_FRAME_HOLD_MS.
+ *
+ * Frames are composited at OUTPUT_SIZE (longest side), not template size,
+ * to keep memory and file size reasonable. Everything is local: with a
+ * local product image, no network is used.
+ */
+
+import sharp from "sharp";
+import { Layer } from "./overlays";
+import { buildCreativeLayers, CreativeProduct } from "./renderer";
+import { CreativeTemplate, getTemplate } from "./templates";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    DURATION_MS: 6000,
+    MIN_DURATION_MS: 5000,
+    MAX_DURATION_MS: 8000,
+    FPS: 12,
+
+    // Longest side of the output (px)
+    OUTPUT_SIZE: 720,
+
+    // Pause on the final frame before the loop restarts
+    LAST_FRAME_HOLD_MS: 1500,
+
+    // Timeline (ms from the start)
+    ZOOM: { start: 0, end: 1800, from: 0.8 },
+    PRICE: { start: 1500, end: 2300, slide: 0.3 },     // slide: share of the price height
+    STICKERS: { start: 2000, end: 2600 },
+    BADGE: { start: 2300, end: 2700, pulsePeriod: 900, pulseScale: 0.08 },
+
+    WEBP_QUALITY: 80,
+    GIF_COLOURS: 128,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AnimationFormat = "webp" | "gif";
+
+export interface AnimationOptions {
+    format?: AnimationFormat;
+    durationMs?: number;
+    requireImage?: boolean;      // As in RenderOptions
+    allowLocalImages?: boolean;
+}
+
+interface Scene {
+    width: number;
+    height: number;
+    background: Buffer;          // Raw RGBA
+    product: Layer;
+    title: Layer;
+    price: Layer;
+    badge: Layer | null;
+    stickers: Layer[];
+}
+
+// ============================================================================
+// EASING
+// ============================================================================
+
+/**
+ * Progress (0..1) of a step running from `start` to `end` at time `t`
+ */
+function progress(t: number, start: number, end: number): number {
+    return Math.min(1, Math.max(0, (t - start) / (end - start)));
+}
+
+const easeOutCubic = (x: number) => 1 - Math.pow(1 - x, 3);
+
+// Overshoots slightly before settling (the badge "pop")
+const easeOutBack = (x: number) => 1 + 2.70158 * Math.pow(x - 1, 3) + 1.70158 * Math.pow(x - 1, 2);
+
+// ============================================================================
+// LAYER HELPERS
+// ============================================================================
+
+/**
+ * Scale a layer's image and position by `factor`
+ */
+async function scaleLayer(layer: Layer, factor: number): Promise<Layer> {
+    const meta = await sharp(layer.input).metadata();
+    const width = Math.max(1, Math.round((meta.width || 1) * factor));
+    const height = Math.max(1, Math.round((meta.height || 1) * factor));
+
+    return {
+        input: await sharp(layer.input).resize(width, height).png().toBuffer(),
+        left: Math.round(layer.left * factor),
+        top: Math.round(layer.top * factor),
+    };
+}
+
+/**
+ * Copy of a layer image with its alpha multiplied by `opacity`
+ */
+async function withOpacity(input: Buffer, opacity: number): Promise<Buffer> {
+    const { data, info } = await sharp(input).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    for (let i = 3; i < data.length; i += 4) data[i] = Math.round(data[i] * opacity);
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+}
+
+/**
+ * A layer resized to `scale` around its own center, kept inside the canvas
+ */
+async function scaledAroundCenter(layer: Layer, scale: number, canvas: { width: number; height: number }): Promise<Layer> {
+    const meta = await sharp(layer.input).metadata();
+    const width = meta.width || 1;
+    const height = meta.height || 1;
+    const scaledWidth = Math.max(1, Math.min(canvas.width, Math.round(width * scale)));
+    const scaledHeight = Math.max(1, Math.min(canvas.height, Math.round(height * scale)));
+
+    const left = Math.round(layer.left + (width - scaledWidth) / 2);
+    const top = Math.round(layer.top + (height - scaledHeight) / 2);
+
+    return {
+        input: await sharp(layer.input).resize(scaledWidth, scaledHeight).png().toBuffer(),
+        left: Math.min(Math.max(0, left), canvas.width - scaledWidth),
+        top: Math.min(Math.max(0, top), canvas.height - scaledHeight),
+    };
+}
+
+/**
+ * Fade cache: the same few opacity steps repeat across frames
+ */
+function fader(input: Buffer): (opacity: number) => Promise<Buffer> {
+    const cache = new Map<number, Promise<Buffer>>();
+    return (opacity) => {
+        const step = Math.round(opacity * 20) / 20;
+        if (step >= 1) return Promise.resolve(input);
+        if (!cache.has(step)) cache.set(step, withOpacity(input, step));
+        return cache.get(step) as Promise<Buffer>;
+    };
+}
+
+// ============================================================================
+// SCENE
+// ============================================================================
+
+async function buildScene(product: CreativeProduct, template: CreativeTemplate, options: AnimationOptions): Promise<Scene> {
+    const layers = await buildCreativeLayers(product, template, options);
+    const factor = Math.min(1, CONFIG.OUTPUT_SIZE / Math.max(template.width, template.height));
+    const width = Math.round(template.width * factor);
+    const height = Math.round(template.height * factor);
+
+    const scale = (layer: Layer) => scaleLayer(layer, factor);
+    const { discountBadge, stickers } = layers.overlays;
+
+    return {
+        width,
+        height,
+        background: await layers.background.clone().resize(width, height).ensureAlpha().raw().toBuffer(),
+        product: await scale(layers.product),
+        title: await scale(layers.title),
+        price: await scale(layers.price),
+        badge: discountBadge ? await scale(discountBadge) : null,
+        stickers: await Promise.all(stickers.map(scale)),
+    };
+}
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+/**
+ * Raw RGBA frame at time `t`
+ */
+async function renderFrame(
+    scene: Scene,
+    t: number,
+    fade: { price: (o: number) => Promise<Buffer>; stickers: ((o: number) => Promise<Buffer>)[] }
+): Promise<Buffer> {
+    const canvas = { width: scene.width, height: scene.height };
+    const composites: sharp.OverlayOptions[] = [];
+
+    // Product zoom-in
+    const zoom = CONFIG.ZOOM.from + (1 - CONFIG.ZOOM.from) * easeOutCubic(progress(t, CONFIG.ZOOM.start, CONFIG.ZOOM.end));
+    composites.push(zoom < 1 ? await scaledAroundCenter(scene.product, zoom, canvas) : scene.product);
+
+    composites.push(scene.title);
+
+    // Price reveal: slide up within its slot and fade in. Slots may end at
+    // the canvas edge (feed), so the part below the slot is cropped off
+    // instead of pushing the layer past it
+    const priceIn = easeOutCubic(progress(t, CONFIG.PRICE.start, CONFIG.PRICE.end));
+    if (priceIn > 0) {
+        const { width = 0, height = 0 } = await sharp(scene.price.input).metadata();
+        const offset = Math.min(Math.round((1 - priceIn) * CONFIG.PRICE.slide * height), height - 1);
+        const faded = await fade.price(priceIn);
+        composites.push({
+            input: offset > 0
+                ? await sharp(faded).extract({ left: 0, top: 0, width, height: height - offset }).png().toBuffer()
+                : faded,
+            left: scene.price.left,
+            top: scene.price.top + offset,
+        });
+    }
+
+    // Stickers fade in
+    const stickersIn = progress(t, CONFIG.STICKERS.start, CONFIG.STICKERS.end);
+    if (stickersIn > 0) {
+        for (let i = 0; i < scene.stickers.length; i++) {
+            composites.push({ ...scene.stickers[i], input: await fade.stickers[i](stickersIn) });
+        }
+    }
+
+    // Badge pop, then pulse
+    if (scene.badge && t >= CONFIG.BADGE.start) {
+        const { start, end, pulsePeriod, pulseScale } = CONFIG.BADGE;
+        const scale = t < end
+            ? Math.max(0.05, easeOutBack(progress(t, start, end)))
+            : 1 + pulseScale * (0.5 - 0.5 * Math.cos((2 * Math.PI * (t - end)) / pulsePeriod));
+        composites.push(Math.abs(scale - 1) < 0.005 ? scene.badge : await scaledAroundCenter(scene.badge, scale, canvas));
+    }
+
+    return sharp(scene.background, { raw: { width: scene.width, height: scene.height, channels: 4 } })
+        .composite(composites)
+        .raw()
+        .toBuffer();
+}
+
+const FRAME_MS = Math.round(1000 / CONFIG.FPS);
+
+/**
+ * Frame times (ms) for a clip of `durationMs` (clamped to 5-8 s), leaving
+ * the last frame's hold at the end
+ */
+function frameTimes(durationMs = CONFIG.DURATION_MS): number[] {
+    const duration = Math.min(CONFIG.MAX_DURATION_MS, Math.max(CONFIG.MIN_DURATION_MS, durationMs));
+    const count = Math.floor((duration - CONFIG.LAST_FRAME_HOLD_MS) / FRAME_MS) + 1;
+
+    return Array.from({ length: count }, (_, i) => i * FRAME_MS);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Renders an animated creative (WebP by default, or GIF)
+ */
+export async function renderAnimatedCreative(
+    product: CreativeProduct,
+    template: CreativeTemplate = getTemplate(),
+    options: AnimationOptions = {}
+): Promise<Buffer> {
+    const format = options.format || "webp";
+    console.log(`Generating animated ${template.id} creative (${format}) for: ${product.title.substring(0, 50)}...`);
+
+    const scene = await buildScene(product, template, options);
+    const fade = { price: fader(scene.price.input), stickers: scene.stickers.map((layer) => fader(layer.input)) };
+
+    // Frames stacked vertically in one raw buffer, one page each
+    const times = frameTimes(options.durationMs);
+    const frameBytes = scene.width * scene.height * 4;
+    const pages = Buffer.alloc(frameBytes * times.length);
+
+    for (let i = 0; i < times.length; i++) {
+        // The badge pulse may end mid-beat: finish on the still layout
+        const t = i === times.length - 1 ? CONFIG.BADGE.end : times[i];
+        (await renderFrame(scene, t, fade)).copy(pages, i * frameBytes);
+    }
+
+    const delay = times.map((_, i) => (i === times.length - 1 ? CONFIG.LAST_FRAME_HOLD_MS : FRAME_MS));
+    const strip = sharp(pages, {
+        raw: { width: scene.width, height: scene.height * times.length, channels: 4, pageHeight: scene.height },
+    });
+    const animation = await (format === "gif"
+        ? strip.gif({ loop: 0, delay, colours: CONFIG.GIF_COLOURS })
+        : strip.webp({ loop: 0, delay, quality: CONFIG.WEBP_QUALITY })
+    ).toBuffer();
+
+    console.log(`Animated creative generated: ${times.length} frames, ${animation.length} bytes`);
+    return animation;
+}
+
+export { CONFIG as ANIMATION_CONFIG };
@@ -0,0 +1,68 @@
+/**
+ * Creative Hash - Content address of a rendered creative
+ *
+ * A creative is identified by a hash of everything that changes its pixels:
+ * the template (id and version) and the product fields it draws (title,
+ * prices, image URL and the overlay inputs). Stored creatives carry the
+ * hash, so a price change makes the current creative stale without any
+ * other bookkeeping. Bump a template's `version` when its layout or the
+ * renderer's drawing changes, to invalidate every creative made with it.
+ *
+ * Pure module (no canvas/sharp), safe to import from the posting code.
+ */
+
+import * as crypto from "crypto";
+import { DEFAULT_TEMPLATE_ID, getTemplate, TemplateId } from "./templates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreativeHashInput {
+    title: string;
+    price: number;
+    originalPrice?: number | null;
+    imageUrl?: string | null;
+    discount?: number | null;
+    rating?: number | null;
+    reviewCount?: number | null;
+    isHistoricalLow?: boolean;
+    couponCode?: string | null;
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Hash (16 hex chars) of a product's creative for a template
+ */
+export function computeCreativeHash(product: CreativeHashInput, templateId: TemplateId = DEFAULT_TEMPLATE_ID): string {
+    const template = getTemplate(templateId);
+    const key = JSON.stringify([
+        template.id,
+        template.version,
+        product.title,
+        product.price,
+        product.originalPrice ?? null,
+        product.imageUrl ?? null,
+        product.discount ?? null,
+        product.rating ?? null,
+        product.reviewCount ?? null,
+        product.isHistoricalLow === true,
+        product.couponCode?.trim() || null,
+    ]);
+
+    return crypto.createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+/**
+ * Whether a stored creative still matches the product's current data
+ */
+export function isCreativeCurrent(
+    product: CreativeHashInput,
+    stored: { hash?: string | null } | null | undefined,
+    templateId: TemplateId = DEFAULT_TEMPLATE_ID
+): boolean {
+    return !!stored?.hash && stored.hash === computeCreativeHash(product, templateId);
+}
@@ -0,0 +1,142 @@
+/**
+ * Creative Status - Per-product creative state
+ *
+ * Products carry the state of their main creative:
+ *   creativeStatus: "pending" | "rendering" | "ready" | "failed"
+ *   creativeAttempts: renders tried for the current content
+ *   creativeLastError: last failure message (null once rendered)
+ *   creativeStatusAt: time of the last change
+ *
+ * New products start "pending" (with creativeUrl: null). The render queue
+ * (creative/renderQueue.ts) moves them through "rendering" to "ready", or
+ * back to "pending" / "failed" when a render fails; a content change makes
+ * a product "pending" again.
+ *
+ * Products created before these fields existed are only picked up by batch
+ * generation (which selects "pending") once backfillCreativeStatus() has
+ * set them (see backfillCreativeStatus.ts for the command line entry point).
+ */
+
+import * as admin from "firebase-admin";
+import { isCreativeCurrent } from "./creativeHash";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Products read per page while backfilling
+    BACKFILL_PAGE_SIZE: 300,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CreativeStatus = "pending" | "rendering" | "ready" | "failed";
+
+export interface CreativeStatusDetails {
+    attempts?: number;
+    error?: string | null;
+}
+
+export interface BackfillResult {
+    scanned: number;
+    updated: number;
+    ready: number;         // Legacy creative still matches the product
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Creative fields written when a product is created
+ */
+export function initialCreativeFields() {
+    return {
+        creativeUrl: null,
+        creativeStatus: "pending" as CreativeStatus,
+        creativeAttempts: 0,
+        creativeLastError: null,
+    };
+}
+
+/**
+ * Creative fields for a product written before creativeStatus existed:
+ * "ready" when its creative still matches its data, otherwise "pending"
+ * (keeping the old creativeUrl until the new render replaces it)
+ */
+export function legacyCreativeFields(product: admin.firestore.DocumentData) {
+    if (product.creativeUrl && isCreativeCurrent(product as { title: string; price: number }, { hash: product.creativeHash })) {
+        return { creativeStatus: "ready" as CreativeStatus, creativeAttempts: 0, creativeLastError: null };
+    }
+    return { ...initialCreativeFields(), creativeUrl: product.creativeUrl ?? null };
+}
+
+/**
+ * Record a product's creative status. A product deleted in the meantime is
+ * ignored.
+ */
+export async function markCreativeStatus(
+    productRef: admin.firestore.DocumentReference,
+    status: CreativeStatus,
+    details: CreativeStatusDetails = {}
+): Promise<void> {
+    try {
+        await productRef.update({
+            creativeStatus: status,
+            ...(details.attempts !== undefined ? { creativeAttempts: details.attempts } : {}),
+            creativeLastError: details.error ?? null,
+            creativeStatusAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    } catch (error) {
+        const code = (error as { code?: number }).code;
+        if (code !== 5) throw error;    // 5 = NOT_FOUND
+    }
+}
+
+/**
+ * Set the creative fields on every product that has no creativeStatus yet
+ * (merged products are skipped). Firestore cannot query for a missing
+ * field, so every product is read, one page at a time.
+ */
+export async function backfillCreativeStatus(
+    db: admin.firestore.Firestore,
+    options: { dryRun?: boolean } = {}
+): Promise<BackfillResult> {
+    const result: BackfillResult = { scanned: 0, updated: 0, ready: 0 };
+    const writer = db.bulkWriter();
+    let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
+
+    for (;;) {
+        let query = db.collection("products")
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(CONFIG.BACKFILL_PAGE_SIZE);
+        if (cursor) query = query.startAfter(cursor);
+
+        const page = await query.get();
+
+        for (const doc of page.docs) {
+            result.scanned++;
+            const product = doc.data();
+            if (product.creativeStatus !== undefined || product.mergedInto) continue;
+
+            const fields = legacyCreativeFields(product);
+            if (fields.creativeStatus === "ready") result.ready++;
+            result.updated++;
+
+            if (!options.dryRun) {
+                writer.update(doc.ref, { ...fields, creativeStatusAt: admin.firestore.FieldValue.serverTimestamp() });
+            }
+        }
+
+        if (page.size < CONFIG.BACKFILL_PAGE_SIZE) break;
+        cursor = page.docs[page.docs.length - 1];
+    }
+
+    await writer.close();
+    return result;
+}
+
+export { CONFIG as CREATIVE_STATUS_CONFIG };
@@ -0,0 +1,188 @@
+/**
+ * Creative Store - Content-addressed creatives in Cloud Storage
+ *
+ * Each render is stored at creatives/{productId}/{templateId}/{hash}.jpg,
+ * where hash = computeCreativeHash(product, template). The product keeps
+ * the current version per template:
+ *   creatives: { [templateId]: { url, hash, path, generatedAt } }
+ * and, for the default template, creativeUrl / creativeHash (what posts use).
+ * Animated variants (creative/animation.ts) are stored the same way as
+ * {hash}.webp / {hash}.gif and referenced from `animatedCreatives` instead.
+ *
+ * ensureCreative() only renders when the hash changed (or the file is
+ * missing). The version it replaces is tagged `supersededAt` in its storage
+ * metadata and deleted by pruneSupersededCreatives() once older than the
+ * retention period, so recent posts keep working images. Only http(s)
+ * product images are rendered (see creative/imageSource.ts).
+ */
+
+import * as admin from "firebase-admin";
+import { computeCreativeHash } from "./creativeHash";
+import { AnimationFormat, renderAnimatedCreative } from "./animation";
+import { isRemoteImageUrl } from "./imageSource";
+import { CreativeProduct, renderCreative } from "./renderer";
+import { DEFAULT_TEMPLATE_ID, getTemplate, TemplateId } from "./templates";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Days superseded creatives are kept before pruning
+    RETENTION_DAYS: Number(process.env.CREATIVE_RETENTION_DAYS) || 30,
+
+    // Files listed per page while pruning
+    PRUNE_PAGE_SIZE: 500,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Bucket = ReturnType<admin.storage.Storage["bucket"]>;
+type File = ReturnType<Bucket["file"]>;
+
+interface FilesPage {
+    prefix: string;
+    autoPaginate: false;
+    maxResults: number;
+    pageToken?: string;
+}
+
+export interface StoredCreative {
+    url: string;
+    hash: string;
+    path: string;
+    generatedAt?: admin.firestore.Timestamp;
+}
+
+export interface CreativeResult {
+    templateId: TemplateId;
+    url: string;
+    hash: string;
+    cached: boolean;       // true when no render was needed
+}
+
+export interface PruneResult {
+    scanned: number;
+    deleted: number;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export function creativePath(productId: string, templateId: TemplateId, hash: string, extension = "jpg"): string {
+    return `creatives/${productId}/${templateId}/${hash}.${extension}`;
+}
+
+function publicUrl(bucket: Bucket, path: string): string {
+    return `https://storage.googleapis.com/${bucket.name}/${path}`;
+}
+
+/**
+ * Make sure the product's creative for `templateId` (still, or animated
+ * with `options.animated`) matches its current data, rendering and
+ * uploading a new version only when needed
+ */
+export async function ensureCreative(
+    bucket: Bucket,
+    productDoc: admin.firestore.DocumentSnapshot,
+    templateId: TemplateId,
+    options: { force?: boolean; requireImage?: boolean; animated?: AnimationFormat } = {}
+): Promise<CreativeResult> {
+    const { animated } = options;
+    const field = animated ? "animatedCreatives" : "creatives";
+    const product = { ...productDoc.data(), asin: productDoc.id } as CreativeProduct;
+    const stored = productDoc.get(new admin.firestore.FieldPath(field, templateId)) as StoredCreative | undefined;
+
+    // Only downloaded images: never read a path from the server's disk
+    if (product.imageUrl && !isRemoteImageUrl(product.imageUrl)) {
+        throw Object.assign(new Error(`Unsupported image URL for ${productDoc.id}: ${product.imageUrl.substring(0, 100)}`), {
+            retryable: false,
+            imageUnavailable: true,
+        });
+    }
+
+    const hash = computeCreativeHash(product, templateId);
+    const path = creativePath(productDoc.id, templateId, hash, animated || "jpg");
+    const url = publicUrl(bucket, path);
+
+    if (!options.force && stored?.hash === hash && stored.path === path) {
+        return { templateId, url: stored.url, hash, cached: true };
+    }
+
+    // The same content may already be stored (e.g. the price went back)
+    const file = bucket.file(path);
+    const [exists] = await file.exists();
+    const cached = exists && !options.force;
+
+    if (cached) {
+        await file.setMetadata({ metadata: { supersededAt: null } });
+    } else {
+        const image = animated
+            ? await renderAnimatedCreative(product, getTemplate(templateId), { format: animated, requireImage: options.requireImage })
+            : await renderCreative(product, getTemplate(templateId), { requireImage: options.requireImage });
+        await file.save(image, {
+            metadata: {
+                contentType: `image/${animated || "jpeg"}`,
+                cacheControl: "public, max-age=31536000, immutable",
+                metadata: { asin: productDoc.id, template: templateId, hash, generatedAt: new Date().toISOString() },
+            },
+        });
+        await file.makePublic();
+    }
+
+    // Keep the previous version around until the retention period ends
+    if (stored?.path && stored.path !== path) {
+        await bucket.file(stored.path)
+            .setMetadata({ metadata: { supersededAt: new Date().toISOString() } })
+            .catch((error) => console.warn(`Could not tag ${stored.path} as superseded:`, error));
+    }
+
+    const generatedAt = admin.firestore.FieldValue.serverTimestamp();
+    await productDoc.ref.update(
+        new admin.firestore.FieldPath(field, templateId), { url, hash, path, generatedAt },
+        // The default template's still doubles as the product's main creative
+        ...(templateId === DEFAULT_TEMPLATE_ID && !animated
+            ? ["creativeUrl", url, "creativeHash", hash, "creativeGeneratedAt", generatedAt]
+            : [])
+    );
+
+    return { templateId, url, hash, cached };
+}
+
+/**
+ * Delete creatives superseded more than `retentionDays` ago
+ */
+export async function pruneSupersededCreatives(
+    bucket: Bucket,
+    retentionDays = CONFIG.RETENTION_DAYS,
+    now = Date.now()
+): Promise<PruneResult> {
+    const cutoff = now - retentionDays * DAY_MS;
+    const result: PruneResult = { scanned: 0, deleted: 0 };
+    let page: FilesPage | null = { prefix: "creatives/", autoPaginate: false, maxResults: CONFIG.PRUNE_PAGE_SIZE };
+
+    while (page) {
+        const [files, nextPage]: [File[], unknown, unknown] = await bucket.getFiles(page);
+
+        for (const file of files) {
+            result.scanned++;
+            const supersededAt = Date.parse(String(file.metadata.metadata?.supersededAt ?? ""));
+            if (Number.isNaN(supersededAt) || supersededAt > cutoff) continue;
+
+            await file.delete({ ignoreNotFound: true });
+            result.deleted++;
+        }
+
+        const pageToken: string | undefined = (nextPage as { pageToken?: string } | null)?.pageToken;
+        page = pageToken ? { ...page, pageToken } : null;
+    }
+
+    return result;
+}
+
+export { CONFIG as CREATIVE_STORE_CONFIG };
@@ -0,0 +1,255 @@
+/**
+ * Image Prep - Product image preparation for creatives (Sharp only)
+ *
+ * Marketplace photos are a product on a white rectangle. Before compositing:
+ * 1. trim uniform borders around the product
+ * 2. make the near-white background transparent (flood fill from the image
+ *    edges, so white areas inside the product are kept)
+ * 3. crop to the product's bounding box, so it is centered by its visible
+ *    pixels rather than by the photo frame
+ * 4. fit it into the template slot: "contain" for cut-out products and odd
+ *    aspect ratios, "cover" for full-bleed photos shaped like the slot
+ * 5. optionally add a soft drop shadow
+ *
+ * Everything runs locally on the image bytes (no network).
+ */
+
+import sharp from "sharp";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Largest side processed pixel by pixel (bigger inputs are downscaled first)
+    MAX_WORK_SIZE: 1600,
+
+    // Border trimming: max color distance from the corner pixel
+    TRIM_THRESHOLD: 12,
+
+    // Pixels with every channel >= this are background candidates...
+    WHITE_THRESHOLD: 235,
+    // ...and those within this range below it get partial transparency
+    SOFT_EDGE: 20,
+
+    // Alpha above which a pixel counts as part of the product
+    VISIBLE_ALPHA: 16,
+
+    // Skip removal when it would leave less than this share of the image
+    // (the photo is probably all background, e.g. a flat placeholder)
+    MIN_PRODUCT_AREA: 0.02,
+
+    // "auto" fit: cover only opaque photos within this aspect ratio of the slot
+    COVER_ASPECT_TOLERANCE: 1.2,
+
+    SHADOW: {
+        blur: 14,          // Gaussian sigma (px)
+        opacity: 0.35,
+        offsetY: 14,       // px below the product
+        margin: 40,        // Space kept free around the product for the shadow (> offsetY)
+    },
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProductFit = "auto" | "contain" | "cover";
+
+export interface ImagePrepOptions {
+    width: number;
+    height: number;
+    fit: ProductFit;
+    removeBackground: boolean;
+    shadow: boolean;
+}
+
+interface RgbaImage {
+    data: Buffer;
+    width: number;
+    height: number;
+}
+
+// ============================================================================
+// PIXEL HELPERS
+// ============================================================================
+
+async function toRgba(image: sharp.Sharp): Promise<RgbaImage> {
+    const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+}
+
+function fromRgba(image: RgbaImage): sharp.Sharp {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } });
+}
+
+/**
+ * Make the near-white background transparent. Only pixels connected to the
+ * image border are cleared; the edge band gets partial alpha for smooth
+ * outlines. Returns the share of the image that stays visible.
+ */
+function removeWhiteBackground(image: RgbaImage): number {
+    const { data, width, height } = image;
+    const low = CONFIG.WHITE_THRESHOLD - CONFIG.SOFT_EDGE;
+    const lightness = (i: number) => Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (p: number) => {
+        if (!visited[p] && lightness(p) >= low) {
+            visited[p] = 1;
+            stack.push(p);
+        }
+    };
+
+    for (let x = 0; x < width; x++) {
+        push(x);
+        push((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        push(y * width);
+        push(y * width + width - 1);
+    }
+
+    while (stack.length > 0) {
+        const p = stack.pop() as number;
+        const x = p % width;
+        const value = lightness(p);
+
+        // Full transparency above the threshold, a ramp across the soft edge
+        const alpha = value >= CONFIG.WHITE_THRESHOLD ? 0 : Math.round(255 * (CONFIG.WHITE_THRESHOLD - value) / CONFIG.SOFT_EDGE);
+        data[p * 4 + 3] = Math.min(data[p * 4 + 3], alpha);
+
+        // Only solid background keeps spreading; the soft edge is the border
+        if (value < CONFIG.WHITE_THRESHOLD) continue;
+        if (x > 0) push(p - 1);
+        if (x < width - 1) push(p + 1);
+        if (p >= width) push(p - width);
+        if (p < (height - 1) * width) push(p + width);
+    }
+
+    let visible = 0;
+    for (let p = 0; p < width * height; p++) {
+        if (data[p * 4 + 3] > CONFIG.VISIBLE_ALPHA) visible++;
+    }
+    return visible / (width * height);
+}
+
+/**
+ * Bounding box of the visible pixels, or null if there are none
+ */
+function visibleBounds(image: RgbaImage): sharp.Region | null {
+    const { data, width, height } = image;
+    let left = width, top = height, right = -1, bottom = -1;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] <= CONFIG.VISIBLE_ALPHA) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+        }
+    }
+
+    return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * "auto" fit: cut-out products are always contained; opaque photos fill the
+ * slot when their aspect ratio is close to it (little gets cropped)
+ */
+export function chooseFit(fit: ProductFit, imageAspect: number, slotAspect: number, transparent: boolean): "contain" | "cover" {
+    if (fit !== "auto") return fit;
+    if (transparent) return "contain";
+
+    const ratio = imageAspect > slotAspect ? imageAspect / slotAspect : slotAspect / imageAspect;
+    return ratio <= CONFIG.COVER_ASPECT_TOLERANCE ? "cover" : "contain";
+}
+
+/**
+ * Soft shadow from the product's alpha channel, drawn on a full slot-sized
+ * canvas so the blur is not clipped at the product's edges
+ */
+async function createShadow(product: Buffer, width: number, height: number, left: number, top: number): Promise<Buffer> {
+    const silhouette = await toRgba(sharp(product));
+    for (let i = 0; i < silhouette.data.length; i += 4) {
+        silhouette.data[i] = silhouette.data[i + 1] = silhouette.data[i + 2] = 0;
+        silhouette.data[i + 3] = Math.round(silhouette.data[i + 3] * CONFIG.SHADOW.opacity);
+    }
+
+    const canvas = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+        .composite([{ input: await fromRgba(silhouette).png().toBuffer(), left, top }])
+        .png()
+        .toBuffer();
+
+    return sharp(canvas).blur(CONFIG.SHADOW.blur).png().toBuffer();
+}
+
+// ============================================================================
+// PREPARATION
+// ============================================================================
+
+/**
+ * Prepare a raw product photo for a slot. Returns a transparent PNG of
+ * exactly width × height with the product centered in it.
+ */
+export async function prepareProductImage(raw: Buffer, options: ImagePrepOptions): Promise<Buffer> {
+    const { width, height } = options;
+
+    // 1. Normalize orientation, bound the work size and trim uniform borders
+    let base = await sharp(raw)
+        .rotate()
+        .resize(CONFIG.MAX_WORK_SIZE, CONFIG.MAX_WORK_SIZE, { fit: "inside", withoutEnlargement: true })
+        .png()
+        .toBuffer();
+    try {
+        base = await sharp(base).trim({ threshold: CONFIG.TRIM_THRESHOLD }).png().toBuffer();
+    } catch (error) {
+        // Trim fails on images that are one flat color: keep them as they are
+    }
+
+    // 2-3. Remove the background and crop to the product
+    let image = await toRgba(sharp(base));
+    let transparent = false;
+
+    if (options.removeBackground) {
+        const cutout = { ...image, data: Buffer.from(image.data) };
+        const visibleShare = removeWhiteBackground(cutout);
+        const bounds = visibleShare >= CONFIG.MIN_PRODUCT_AREA ? visibleBounds(cutout) : null;
+
+        if (bounds) {
+            image = await toRgba(fromRgba(cutout).extract(bounds));
+            transparent = true;
+        }
+    }
+
+    // 4. Fit into the slot (keeping room for the shadow)
+    const margin = options.shadow && transparent ? CONFIG.SHADOW.margin : 0;
+    const fit = chooseFit(options.fit, image.width / image.height, width / height, transparent);
+
+    const fitted = fit === "cover"
+        ? await fromRgba(image).resize(width, height, { fit: "cover" }).png().toBuffer()
+        : await fromRgba(image)
+            .resize(width - margin * 2, height - margin * 2, { fit: "inside" })
+            .png()
+            .toBuffer();
+
+    const meta = await sharp(fitted).metadata();
+    const left = Math.round((width - (meta.width || width)) / 2);
+    const top = Math.round((height - (meta.height || height)) / 2);
+
+    // 5. Product (and shadow) on a transparent slot-sized canvas
+    const layers: sharp.OverlayOptions[] = [];
+    if (margin > 0) {
+        layers.push({ input: await createShadow(fitted, width, height, left, top + CONFIG.SHADOW.offsetY), left: 0, top: 0 });
+    }
+    layers.push({ input: fitted, left, top });
+
+    return sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+        .composite(layers)
+        .png()
+        .toBuffer();
+}
+
+export { CONFIG as IMAGE_PREP_CONFIG };
@@ -0,0 +1,34 @@
+/**
+ * Image Source - Where product images may be loaded from
+ *
+ * Production renders only download http(s) URLs. Reading file:// URLs and
+ * plain paths from disk is opt-in (allowLocalImages) and used by the local
+ * render CLI and the golden-image check, so a product whose imageUrl points
+ * at the server's filesystem is never read by the Cloud Functions.
+ */
+
+import fetch from "node-fetch";
+import * as fs from "fs";
+import { fileURLToPath } from "url";
+
+export function isRemoteImageUrl(imageUrl: string): boolean {
+    return /^https?:\/\//i.test(imageUrl);
+}
+
+async function downloadImage(url: string): Promise<Buffer> {
+    const response = await fetch(url, {
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ImageBot/1.0)" },
+    });
+    if (!response.ok) throw new Error(`Failed to download image: ${response.status}`);
+    return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Product image bytes: downloaded for http(s) URLs; file:// URLs and plain
+ * paths are read from disk only with `allowLocalImages`
+ */
+export async function loadProductImage(imageUrl: string, allowLocalImages = false): Promise<Buffer> {
+    if (isRemoteImageUrl(imageUrl)) return downloadImage(imageUrl);
+    if (!allowLocalImages) throw new Error(`Unsupported image URL: ${imageUrl.substring(0, 100)}`);
+    return fs.promises.readFile(imageUrl.startsWith("file://") ? fileURLToPath(imageUrl) : imageUrl);
+}
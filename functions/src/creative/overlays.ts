@@ -0,0 +1,273 @@
+/**
+ * Creative Overlays - Optional stickers drawn over a creative
+ *
+ * - discountBadge: "-35%" circle, from `discount` (or original vs. current price)
+ * - rating: stars plus review count, when the product has a rating
+ * - historicalLow: "Menor preço histórico" ribbon, when `isHistoricalLow`
+ * - coupon: coupon-code chip, when the product has a `couponCode`
+ *
+ * Each component renders into its slot from the template's `overlays`; a
+ * template enables a component by declaring its slot. Text uses the
+ * template's font family (Figtree, registered by renderer.ts).
+ */
+
+import { createCanvas, CanvasRenderingContext2D } from "canvas";
+import { BRAND_COLOR, Box, CreativeTemplate } from "./templates";
+import { fitFontSize } from "./textLayout";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Smallest discount worth a badge (%)
+    MIN_BADGE_DISCOUNT: 5,
+
+    BADGE_COLOR: "#E53935",
+    RIBBON_COLOR: "#E53935",
+    STAR_COLOR: "#FFA41C",
+    STAR_EMPTY_COLOR: "#D5D5D5",
+    TEXT_DARK: "#111111",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OverlayData {
+    price: number;
+    originalPrice?: number | null;
+    discount?: number | null;
+    rating?: number | null;
+    reviewCount?: number | null;
+    isHistoricalLow?: boolean;
+    couponCode?: string | null;
+}
+
+// A rendered layer and its position on the template canvas
+export interface Layer {
+    input: Buffer;
+    left: number;
+    top: number;
+}
+
+export interface OverlayLayers {
+    discountBadge: Layer | null;
+    stickers: Layer[];           // Rating, historical-low ribbon, coupon
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) {
+    const r = Math.min(radius, width / 2, height / 2);
+    ctx.beginPath();
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + width, y, x + width, y + height, r);
+    ctx.arcTo(x + width, y + height, x, y + height, r);
+    ctx.arcTo(x, y + height, x, y, r);
+    ctx.arcTo(x, y, x + width, y, r);
+    ctx.closePath();
+}
+
+function starPath(ctx: CanvasRenderingContext2D, cx: number, cy: number, outer: number) {
+    const inner = outer * 0.5;
+    ctx.beginPath();
+    for (let i = 0; i < 10; i++) {
+        const radius = i % 2 === 0 ? outer : inner;
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const x = cx + radius * Math.cos(angle);
+        const y = cy + radius * Math.sin(angle);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+}
+
+/**
+ * Discount to show on the badge, in whole percent (0 = no badge)
+ */
+export function badgeDiscount(data: OverlayData): number {
+    const discount = data.discount ||
+        (data.originalPrice && data.originalPrice > data.price ? (1 - data.price / data.originalPrice) * 100 : 0);
+    const rounded = Math.round(discount);
+    return rounded >= CONFIG.MIN_BADGE_DISCOUNT && rounded < 100 ? rounded : 0;
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function renderDiscountBadge(discount: number, box: Box, template: CreativeTemplate): Buffer {
+    const canvas = createCanvas(box.width, box.height);
+    const ctx = canvas.getContext("2d");
+    const size = Math.min(box.width, box.height);
+    const cx = box.width / 2;
+    const cy = box.height / 2;
+
+    // Red disc with a white ring
+    ctx.fillStyle = CONFIG.BADGE_COLOR;
+    ctx.beginPath();
+    ctx.arc(cx, cy, size / 2 - 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = "#FFFFFF";
+    ctx.lineWidth = Math.max(3, size / 30);
+    ctx.beginPath();
+    ctx.arc(cx, cy, size / 2 - size / 12, 0, Math.PI * 2);
+    ctx.stroke();
+
+    const text = `-${discount}%`;
+    const font = (px: number) => `${template.fonts.titleWeight} ${px}px ${template.fonts.family}, Arial`;
+    fitFontSize(ctx, text, font, size * 0.72, Math.round(size * 0.34));
+
+    ctx.fillStyle = "#FFFFFF";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, cx, cy);
+
+    return canvas.toBuffer("image/png");
+}
+
+function renderRating(rating: number, reviewCount: number, box: Box, template: CreativeTemplate): Buffer {
+    const canvas = createCanvas(box.width, box.height);
+    const ctx = canvas.getContext("2d");
+    const padding = box.height * 0.25;
+
+    // White pill behind the stars
+    ctx.fillStyle = "rgba(255, 255, 255, 0.92)";
+    roundedRect(ctx, 0, 0, box.width, box.height, box.height / 2);
+    ctx.fill();
+
+    // Five stars, the last one partially filled
+    const starRadius = box.height * 0.3;
+    const starSpacing = starRadius * 2.2;
+    const cy = box.height / 2;
+    const clamped = Math.max(0, Math.min(5, rating));
+
+    for (let i = 0; i < 5; i++) {
+        const cx = padding + starRadius + i * starSpacing;
+        const fill = Math.max(0, Math.min(1, clamped - i));
+
+        starPath(ctx, cx, cy, starRadius);
+        ctx.fillStyle = CONFIG.STAR_EMPTY_COLOR;
+        ctx.fill();
+
+        if (fill > 0) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(cx - starRadius, cy - starRadius, starRadius * 2 * fill, starRadius * 2);
+            ctx.clip();
+            starPath(ctx, cx, cy, starRadius);
+            ctx.fillStyle = CONFIG.STAR_COLOR;
+            ctx.fill();
+            ctx.restore();
+        }
+    }
+
+    // "4,6 (1.234)"
+    const label = reviewCount > 0
+        ? `${clamped.toLocaleString("pt-BR", { minimumFractionDigits: 1, maximumFractionDigits: 1 })} (${reviewCount.toLocaleString("pt-BR")})`
+        : clamped.toLocaleString("pt-BR", { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    const textLeft = padding + 5 * starSpacing;
+    const font = (px: number) => `600 ${px}px ${template.fonts.family}, Arial`;
+    fitFontSize(ctx, label, font, box.width - textLeft - padding, Math.round(box.height * 0.5));
+
+    ctx.fillStyle = CONFIG.TEXT_DARK;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, textLeft, cy);
+
+    return canvas.toBuffer("image/png");
+}
+
+function renderHistoricalLowRibbon(box: Box, template: CreativeTemplate): Buffer {
+    const canvas = createCanvas(box.width, box.height);
+    const ctx = canvas.getContext("2d");
+    const notch = box.height * 0.35;
+
+    // Ribbon with a notched tail on the right
+    ctx.fillStyle = CONFIG.RIBBON_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(box.width, 0);
+    ctx.lineTo(box.width - notch, box.height / 2);
+    ctx.lineTo(box.width, box.height);
+    ctx.lineTo(0, box.height);
+    ctx.closePath();
+    ctx.fill();
+
+    const text = "MENOR PREÇO HISTÓRICO";
+    const font = (px: number) => `${template.fonts.titleWeight} ${px}px ${template.fonts.family}, Arial`;
+    fitFontSize(ctx, text, font, box.width - notch - box.height * 0.5, Math.round(box.height * 0.5));
+
+    ctx.fillStyle = "#FFFFFF";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, (box.width - notch) / 2, box.height / 2);
+
+    return canvas.toBuffer("image/png");
+}
+
+function renderCouponChip(code: string, box: Box, template: CreativeTemplate): Buffer {
+    const canvas = createCanvas(box.width, box.height);
+    const ctx = canvas.getContext("2d");
+    const inset = 3;
+
+    // Dark chip with a dashed brand-colored border, like a coupon cut-out
+    ctx.fillStyle = "#000000";
+    roundedRect(ctx, inset, inset, box.width - inset * 2, box.height - inset * 2, box.height * 0.2);
+    ctx.fill();
+    ctx.strokeStyle = BRAND_COLOR;
+    ctx.lineWidth = inset;
+    ctx.setLineDash([box.height * 0.15, box.height * 0.1]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const text = `CUPOM: ${code.toUpperCase()}`;
+    const font = (px: number) => `${template.fonts.titleWeight} ${px}px ${template.fonts.family}, Arial`;
+    fitFontSize(ctx, text, font, box.width - box.height * 0.6, Math.round(box.height * 0.5));
+
+    ctx.fillStyle = BRAND_COLOR;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, box.width / 2, box.height / 2);
+
+    return canvas.toBuffer("image/png");
+}
+
+// ============================================================================
+// LAYERS
+// ============================================================================
+
+/**
+ * Layers for every overlay the template enables and the product has data
+ * for. The discount badge is kept apart so animations can move it alone.
+ */
+export function buildOverlayLayers(data: OverlayData, template: CreativeTemplate): OverlayLayers {
+    const { overlays } = template;
+    const at = (box: Box, input: Buffer): Layer => ({ input, top: box.top, left: box.left });
+    const layers: OverlayLayers = { discountBadge: null, stickers: [] };
+
+    const discount = badgeDiscount(data);
+    if (overlays.discountBadge && discount > 0) {
+        layers.discountBadge = at(overlays.discountBadge, renderDiscountBadge(discount, overlays.discountBadge, template));
+    }
+
+    if (overlays.rating && data.rating && data.rating > 0) {
+        layers.stickers.push(at(overlays.rating, renderRating(data.rating, data.reviewCount || 0, overlays.rating, template)));
+    }
+
+    if (overlays.historicalLow && data.isHistoricalLow) {
+        layers.stickers.push(at(overlays.historicalLow, renderHistoricalLowRibbon(overlays.historicalLow, template)));
+    }
+
+    const couponCode = data.couponCode?.trim();
+    if (overlays.coupon && couponCode) {
+        layers.stickers.push(at(overlays.coupon, renderCouponChip(couponCode, overlays.coupon, template)));
+    }
+
+    return layers;
+}
+
+export { CONFIG as OVERLAY_CONFIG };
@@ -0,0 +1,62 @@
+/**
+ * Product File - Read products for local rendering from JSON
+ *
+ * Accepts any of:
+ * - a single product object
+ * - an array of products
+ * - an object keyed by document id ({ "B0XXXXXX": { ...product } })
+ * - a collection export ({ "products": <array or keyed object> })
+ *
+ * Products are identified by `asin`, then `id`, then their key. Relative
+ * image paths are resolved against the file's directory, so fixtures can
+ * point at files in functions/assets.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { CreativeProduct } from "./renderer";
+
+type RawProduct = Record<string, unknown>;
+
+function isProduct(value: unknown): value is RawProduct {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+    const data = value as RawProduct;
+    return typeof data.title === "string" && typeof data.price === "number";
+}
+
+function toCreativeProduct(data: RawProduct, key: string, baseDir: string): CreativeProduct {
+    const imageUrl = String(data.imageUrl || "");
+    const isRemote = /^(https?|file):\/\//i.test(imageUrl);
+
+    return {
+        ...(data as unknown as CreativeProduct),
+        asin: String(data.asin || data.id || key),
+        discount: typeof data.discount === "number" ? data.discount : 0,
+        imageUrl: imageUrl && !isRemote ? path.resolve(baseDir, imageUrl) : imageUrl,
+    };
+}
+
+/**
+ * Read every product in a JSON file
+ */
+export function readProductsFile(filePath: string): CreativeProduct[] {
+    const baseDir = path.dirname(path.resolve(filePath));
+    let json: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+    if (json && typeof json === "object" && !Array.isArray(json) && "products" in json) {
+        json = (json as { products: unknown }).products;
+    }
+
+    if (isProduct(json)) return [toCreativeProduct(json, path.basename(filePath, ".json"), baseDir)];
+
+    const entries: [string, unknown][] = Array.isArray(json)
+        ? json.map((item, i) => [String(i), item])
+        : Object.entries((json || {}) as Record<string, unknown>);
+
+    const products = entries
+        .filter(([, item]) => isProduct(item))
+        .map(([key, item]) => toCreativeProduct(item as RawProduct, key, baseDir));
+
+    if (products.length === 0) throw new Error(`No products (objects with title and price) in ${filePath}`);
+    return products;
+}
@@ -0,0 +1,282 @@
+/**
+ * Render Queue - Background creative rendering on product changes
+ *
+ * A write to products/{id} that changes what the creative shows (new
+ * product, price, original price, title, image or overlay data, i.e. a
+ * different computeCreativeHash) queues a job at creativeJobs/{productId}:
+ *   { productId, status, attempts, scheduledFor, requestedAt, claimedAt?,
+ *     reason, lastError? }
+ * so a product has at most one job. Jobs are processed right away by the
+ * product trigger and swept by a scheduled run (retries and anything the
+ * trigger could not take).
+ *
+ * Failed renders are retried with a growing delay. A product whose image
+ * cannot be downloaded after MAX_ATTEMPTS, or whose render was interrupted
+ * on its last attempt, gets a dead-letter record at
+ * creativeDeadLetters/{productId}, removed by its next successful render.
+ *
+ * The job's progress is mirrored on the product (creative/creativeStatus.ts).
+ */
+
+import * as admin from "firebase-admin";
+import { computeCreativeHash } from "./creativeHash";
+import { Bucket, ensureCreative } from "./creativeStore";
+import { markCreativeStatus } from "./creativeStatus";
+import { TEMPLATES, TemplateId } from "./templates";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Templates rendered for each job
+    TEMPLATE_IDS: Object.keys(TEMPLATES) as TemplateId[],
+
+    // Failed renders are retried with a delay growing per attempt, then
+    // marked failed (and dead-lettered when the image was the problem)
+    MAX_ATTEMPTS: 3,
+    RETRY_DELAY_MS: 5 * 60 * 1000,
+
+    // Jobs per scheduled run (processed one at a time)
+    MAX_JOBS_PER_RUN: 10,
+
+    // "rendering" jobs older than this were interrupted (timeout, crash)
+    STALE_CLAIM_MS: 15 * 60 * 1000,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RenderJobStatus = "pending" | "rendering" | "done" | "failed";
+
+export type RenderJobOutcome = "rendered" | "retrying" | "failed" | "skipped";
+
+export interface RenderQueueResult {
+    rendered: number;
+    retried: number;
+    failed: number;
+    released: number;      // Stale claims put back in the queue
+}
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+function hashOf(product: admin.firestore.DocumentData | undefined): string | null {
+    if (!product || typeof product.title !== "string" || typeof product.price !== "number") return null;
+    return computeCreativeHash(product as { title: string; price: number });
+}
+
+/**
+ * Why a product write needs a new creative, or null if it does not.
+ * Writes that leave the creative inputs untouched (including the creative
+ * fields the renderer itself sets) are ignored.
+ */
+export function renderReason(
+    before: admin.firestore.DocumentData | undefined,
+    after: admin.firestore.DocumentData | undefined
+): string | null {
+    if (!after || after.mergedInto) return null;
+
+    const afterHash = hashOf(after);
+    if (!afterHash) return null;
+    if (!before) return "created";
+    if (hashOf(before) === afterHash) return null;
+
+    return before.price !== after.price || before.originalPrice !== after.originalPrice
+        ? "price-changed"
+        : "content-changed";
+}
+
+/**
+ * Queue (or re-queue) the product's render job to run now
+ */
+export async function enqueueRenderJob(db: admin.firestore.Firestore, productId: string, reason: string): Promise<void> {
+    const ref = db.collection("creativeJobs").doc(productId);
+    const now = admin.firestore.Timestamp.now();
+
+    await db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+
+        // A render in progress picks the request up when it finishes
+        if (snap.get("status") === "rendering") {
+            tx.update(ref, { requestedAt: now, reason });
+            return;
+        }
+
+        tx.set(ref, {
+            productId,
+            status: "pending" as RenderJobStatus,
+            attempts: 0,
+            reason,
+            requestedAt: now,
+            scheduledFor: now,
+            ...(snap.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+        }, { merge: true });
+    });
+
+    await markCreativeStatus(db.collection("products").doc(productId), "pending", { attempts: 0 });
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+async function deadLetter(db: admin.firestore.Firestore, productId: string, error: string, attempts: number): Promise<void> {
+    const productDoc = await db.collection("products").doc(productId).get();
+    await db.collection("creativeDeadLetters").doc(productId).set({
+        productId,
+        imageUrl: productDoc.get("imageUrl") ?? null,
+        error,
+        attempts,
+        failedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+}
+
+/**
+ * Atomically move a due pending job to "rendering" so overlapping runs
+ * never render the same product twice. Returns null if the job is not due
+ * or another run claimed it.
+ */
+async function claimJob(
+    db: admin.firestore.Firestore,
+    ref: admin.firestore.DocumentReference,
+    now: number
+): Promise<{ claimedAt: admin.firestore.Timestamp; attempts: number } | null> {
+    return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const scheduledFor = snap.get("scheduledFor") as admin.firestore.Timestamp | undefined;
+        if (snap.get("status") !== "pending" || (scheduledFor && scheduledFor.toMillis() > now)) return null;
+
+        const claimedAt = admin.firestore.Timestamp.fromMillis(now);
+        const attempts = (snap.get("attempts") || 0) + 1;
+        tx.update(ref, { status: "rendering" as RenderJobStatus, claimedAt, attempts });
+        return { claimedAt, attempts };
+    });
+}
+
+/**
+ * Render the templates of a queued product (all by default). Uses the
+ * product as it is now, so a job that waited still renders the latest price.
+ */
+export async function processRenderJob(
+    db: admin.firestore.Firestore,
+    bucket: Bucket,
+    productId: string,
+    now = Date.now(),
+    templateIds = CONFIG.TEMPLATE_IDS
+): Promise<RenderJobOutcome> {
+    const ref = db.collection("creativeJobs").doc(productId);
+    const productRef = db.collection("products").doc(productId);
+    const claim = await claimJob(db, ref, now);
+    if (!claim) return "skipped";
+    const { claimedAt, attempts } = claim;
+
+    try {
+        await markCreativeStatus(productRef, "rendering", { attempts });
+
+        const productDoc = await productRef.get();
+        if (!productDoc.exists || productDoc.get("mergedInto")) {
+            throw Object.assign(new Error(`Product ${productId} not found`), { retryable: false });
+        }
+
+        for (const templateId of templateIds) {
+            await ensureCreative(bucket, productDoc, templateId, { requireImage: true });
+        }
+
+        // A write during the render queued a newer request: run again
+        const requeued = await db.runTransaction(async (tx) => {
+            const snap = await tx.get(ref);
+            const requestedAt = snap.get("requestedAt") as admin.firestore.Timestamp | undefined;
+            const requeue = !!requestedAt && requestedAt.toMillis() > claimedAt.toMillis();
+
+            tx.update(ref, {
+                status: (requeue ? "pending" : "done") as RenderJobStatus,
+                attempts: requeue ? 0 : attempts,
+                completedAt: admin.firestore.FieldValue.serverTimestamp(),
+                lastError: null,
+            });
+            return requeue;
+        });
+        await db.collection("creativeDeadLetters").doc(productId).delete();
+
+        console.log(`✓ Rendered creatives for ${productId}`);
+        if (requeued) return processRenderJob(db, bucket, productId, Date.now(), templateIds);
+
+        await markCreativeStatus(productRef, "ready", { attempts });
+        return "rendered";
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        const retryable = (error as { retryable?: boolean }).retryable !== false;
+        const giveUp = !retryable || attempts >= CONFIG.MAX_ATTEMPTS;
+
+        await ref.update({
+            status: (giveUp ? "failed" : "pending") as RenderJobStatus,
+            lastError: errorMsg,
+            ...(giveUp ? {} : {
+                scheduledFor: admin.firestore.Timestamp.fromMillis(now + CONFIG.RETRY_DELAY_MS * attempts),
+            }),
+        });
+        await markCreativeStatus(productRef, giveUp ? "failed" : "pending", { attempts, error: errorMsg });
+
+        if (giveUp && (error as { imageUnavailable?: boolean }).imageUnavailable) {
+            await deadLetter(db, productId, errorMsg, attempts);
+        }
+
+        console.error(`✗ Failed to render creatives for ${productId} (attempt ${attempts}): ${errorMsg}`);
+        return giveUp ? "failed" : "retrying";
+    }
+}
+
+/**
+ * Put interrupted jobs back in the queue (or fail them once out of
+ * attempts) and process the due ones
+ */
+export async function processRenderQueue(
+    db: admin.firestore.Firestore,
+    bucket: Bucket,
+    now = Date.now()
+): Promise<RenderQueueResult> {
+    const result: RenderQueueResult = { rendered: 0, retried: 0, failed: 0, released: 0 };
+
+    const staleSnap = await db.collection("creativeJobs")
+        .where("status", "==", "rendering")
+        .where("claimedAt", "<=", admin.firestore.Timestamp.fromMillis(now - CONFIG.STALE_CLAIM_MS))
+        .get();
+
+    for (const job of staleSnap.docs) {
+        const attempts: number = job.get("attempts") || 0;
+        const giveUp = attempts >= CONFIG.MAX_ATTEMPTS;
+        const errorMsg = "Render interrupted";
+
+        await job.ref.update({ status: (giveUp ? "failed" : "pending") as RenderJobStatus, lastError: errorMsg });
+        await markCreativeStatus(db.collection("products").doc(job.id), giveUp ? "failed" : "pending", { attempts, error: errorMsg });
+
+        if (giveUp) {
+            await deadLetter(db, job.id, errorMsg, attempts);
+            console.error(`✗ Render of ${job.id} interrupted on its last attempt (${attempts})`);
+            result.failed++;
+        } else {
+            result.released++;
+        }
+    }
+
+    const dueSnap = await db.collection("creativeJobs")
+        .where("status", "==", "pending")
+        .where("scheduledFor", "<=", admin.firestore.Timestamp.fromMillis(now))
+        .orderBy("scheduledFor", "asc")
+        .limit(CONFIG.MAX_JOBS_PER_RUN)
+        .get();
+
+    for (const job of dueSnap.docs) {
+        const outcome = await processRenderJob(db, bucket, job.id, now);
+        if (outcome === "rendered") result.rendered++;
+        else if (outcome === "retrying") result.retried++;
+        else if (outcome === "failed") result.failed++;
+    }
+
+    return result;
+}
+
+export { CONFIG as RENDER_QUEUE_CONFIG };
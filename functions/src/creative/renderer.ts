@@ -0,0 +1,273 @@
+/**
+ * Creative Renderer - Canvas + Sharp rendering core
+ *
+ * Renders a product with a template (templates.ts) and its overlays
+ * (overlays.ts) into an image buffer; buildCreativeLayers() exposes the
+ * individual layers for animated creatives (animation.ts). No Firebase dependencies: the Cloud
+ * Functions in creativeGenerator.ts, the local CLI (renderCreative.ts) and
+ * the golden-image check (creativeGolden.ts) all render through here, so
+ * local output matches production.
+ */
+
+import { createCanvas, registerFont } from "canvas";
+import sharp from "sharp";
+import * as path from "path";
+import { BRAND_COLOR, CreativeTemplate, getTemplate } from "./templates";
+import { buildOverlayLayers, Layer, OverlayLayers } from "./overlays";
+import { cleanProductTitle, fitFontSize, layoutText } from "./textLayout";
+import { prepareProductImage } from "./imagePrep";
+import { loadProductImage } from "./imageSource";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const ASSETS_DIR = path.join(__dirname, "..", "..", "assets");
+
+// Register Figtree fonts
+registerFont(path.join(ASSETS_DIR, "Figtree-Bold.ttf"), { family: "Figtree", weight: "bold" });
+registerFont(path.join(ASSETS_DIR, "Figtree-SemiBold.ttf"), { family: "Figtree", weight: "600" });
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function formatPrice(price: number): string {
+    return `R$ ${price.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Creates title bar canvas (sized to the template's title slot). The
+ * cleaned title is laid out with measured widths (creative/textLayout.ts).
+ */
+async function createTitleBarCanvas(text: string, template: CreativeTemplate): Promise<Buffer> {
+    const slot = template.title;
+
+    const canvas = createCanvas(slot.width, slot.height);
+    const ctx = canvas.getContext('2d');
+
+    // Draw rounded rectangle with opacity
+    const { width, height, radius } = slot;
+
+    ctx.globalAlpha = slot.opacity;
+    ctx.fillStyle = '#000000';
+    ctx.beginPath();
+    ctx.moveTo(radius, 0);
+    ctx.lineTo(width - radius, 0);
+    ctx.quadraticCurveTo(width, 0, width, radius);
+    ctx.lineTo(width, height - radius);
+    ctx.quadraticCurveTo(width, height, width - radius, height);
+    ctx.lineTo(radius, height);
+    ctx.quadraticCurveTo(0, height, 0, height - radius);
+    ctx.lineTo(0, radius);
+    ctx.quadraticCurveTo(0, 0, radius, 0);
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalAlpha = 1.0;  // Reset opacity for text
+
+    const layout = layoutText(ctx, cleanProductTitle(text), {
+        width: width - slot.padding * 2,
+        height: height - slot.padding * 2,
+        font: (size) => `${template.fonts.titleWeight} ${size}px ${template.fonts.family}, Arial`,
+        maxFontSize: slot.maxFontSize,
+        minFontSize: slot.minFontSize,
+        maxLines: slot.maxLines,
+    });
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    // Lines are centered vertically in the bar
+    const { lines, lineHeight } = layout;
+    lines.forEach((line, index) => {
+        const y = height / 2 + (index - (lines.length - 1) / 2) * lineHeight;
+        ctx.fillText(line, width / 2, y);
+    });
+
+    return canvas.toBuffer('image/png');
+}
+
+/**
+ * Creates price canvas (sized to the template's price slot). The main price
+ * keeps its position whether or not the original price is shown above it.
+ */
+async function createPriceCanvas(text: string, template: CreativeTemplate, originalPrice?: string): Promise<Buffer> {
+    const slot = template.price;
+    const canvas = createCanvas(slot.width, slot.height);
+    const ctx = canvas.getContext('2d');
+    const centerX = slot.width / 2;
+
+    const ORIGINAL_PRICE_GAP = slot.originalFontSize * 0.6;    // Space between original and main price
+    const STRIKETHROUGH_LINE_WIDTH = Math.max(2, Math.round(slot.originalFontSize / 12));
+    const mainPriceY = slot.originalFontSize + ORIGINAL_PRICE_GAP;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+
+    // Draw original price (strikethrough) above the main price
+    if (originalPrice) {
+        ctx.fillStyle = '#666666';
+        ctx.font = `${template.fonts.titleWeight} ${slot.originalFontSize}px ${template.fonts.family}, Arial`;
+        ctx.fillText(originalPrice, centerX, 0);
+
+        // Strikethrough line
+        const textWidth = ctx.measureText(originalPrice).width;
+        const lineY = slot.originalFontSize * 0.6;
+        ctx.strokeStyle = '#666666';
+        ctx.lineWidth = STRIKETHROUGH_LINE_WIDTH;
+        ctx.beginPath();
+        ctx.moveTo(centerX - textWidth / 2, lineY);
+        ctx.lineTo(centerX + textWidth / 2, lineY);
+        ctx.stroke();
+    }
+
+    // Draw main price with stroke (outline), shrunk if it is wider than the slot
+    const priceFont = (size: number) => `${template.fonts.priceWeight} ${size}px ${template.fonts.family}, Arial`;
+    fitFontSize(ctx, text, priceFont, slot.width - slot.outlineWidth * 2, slot.fontSize);
+
+    // Stroke (outline)
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = slot.outlineWidth;
+    ctx.lineJoin = 'round';
+    ctx.strokeText(text, centerX, mainPriceY);
+
+    // Fill
+    ctx.fillStyle = BRAND_COLOR;
+    ctx.fillText(text, centerX, mainPriceY);
+
+    return canvas.toBuffer('image/png');
+}
+
+/**
+ * Template background: the asset resized to cover the canvas, or a solid color
+ */
+async function createBackground(template: CreativeTemplate): Promise<sharp.Sharp> {
+    const { width, height, background } = template;
+
+    if (background.asset) {
+        const buffer = await sharp(path.join(ASSETS_DIR, background.asset))
+            .resize(width, height, { fit: "cover" })
+            .toBuffer();
+        return sharp(buffer);
+    }
+
+    return sharp({ create: { width, height, channels: 4, background: background.color } });
+}
+
+// ============================================================================
+// MAIN GENERATOR
+// ============================================================================
+
+export interface CreativeProduct {
+    asin: string;
+    title: string;
+    price: number;
+    originalPrice?: number | null;
+    discount: number;
+    imageUrl: string;
+    rating?: number | null;
+    reviewCount?: number | null;
+    isHistoricalLow?: boolean;
+    couponCode?: string | null;
+}
+
+export interface RenderOptions {
+    format?: "jpeg" | "png";     // JPEG for publishing, PNG for lossless comparisons
+    requireImage?: boolean;      // Throw (error.imageUnavailable) instead of using a placeholder
+    allowLocalImages?: boolean;  // Read file:// URLs and paths (CLI and golden check only)
+}
+
+/**
+ * Layers of a creative, positioned on the template canvas. The still
+ * render composites them once; animation.ts composites them per frame.
+ */
+export interface CreativeLayers {
+    background: sharp.Sharp;     // Template-sized base (clone() before reuse)
+    product: Layer;
+    title: Layer;
+    price: Layer;
+    overlays: OverlayLayers;
+}
+
+/**
+ * Render every layer of a creative (product image, title bar, price and
+ * overlay stickers)
+ */
+export async function buildCreativeLayers(
+    product: CreativeProduct,
+    template: CreativeTemplate = getTemplate(),
+    options: Pick<RenderOptions, "requireImage" | "allowLocalImages"> = {}
+): Promise<CreativeLayers> {
+    // 1. Load the product image, cut it out and frame it in its slot
+    const slot = template.product;
+    let productImage: Buffer;
+    try {
+        const rawImage = await loadProductImage(product.imageUrl, options.allowLocalImages);
+        productImage = await prepareProductImage(rawImage, slot);
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (options.requireImage) {
+            throw Object.assign(new Error(`Product image unavailable: ${errorMsg}`), { imageUnavailable: true });
+        }
+        console.error(`Failed to load product image (${errorMsg}), using placeholder`);
+        productImage = await sharp({
+            create: {
+                width: slot.width,
+                height: slot.height,
+                channels: 4,
+                background: { r: 220, g: 220, b: 220, alpha: 1 }
+            },
+        }).png().toBuffer();
+    }
+
+    // 2. Create text overlays using Canvas
+    const titleBar = await createTitleBarCanvas(product.title, template);
+
+    const mainPrice = formatPrice(product.price);
+    const originalPrice = product.originalPrice && product.originalPrice > product.price
+        ? formatPrice(product.originalPrice)
+        : undefined;
+    const priceCanvas = await createPriceCanvas(mainPrice, template, originalPrice);
+
+    return {
+        background: await createBackground(template),
+        product: { input: productImage, top: slot.top, left: slot.left },
+        title: { input: titleBar, top: template.title.top, left: template.title.left },
+        price: { input: priceCanvas, top: template.price.top, left: template.price.left },
+        overlays: buildOverlayLayers(product, template),
+    };
+}
+
+/**
+ * Renders a promotional image using Canvas + Sharp
+ */
+export async function renderCreative(
+    product: CreativeProduct,
+    template: CreativeTemplate = getTemplate(),
+    options: RenderOptions = {}
+): Promise<Buffer> {
+    console.log(`Generating ${template.id} creative for: ${product.title.substring(0, 50)}...`);
+
+    const layers = await buildCreativeLayers(product, template, options);
+    const { discountBadge, stickers } = layers.overlays;
+
+    // Composite all layers - Product image FIRST (behind), then title (front with opacity)
+    const composites: sharp.OverlayOptions[] = [
+        // Layer 1: Product image (behind everything)
+        layers.product,
+        // Layer 2: Title bar
+        layers.title,
+        // Layer 3: Price (front)
+        layers.price,
+        // Layer 4: Overlay stickers the template enables (badge, rating, ribbon, coupon)
+        ...(discountBadge ? [discountBadge] : []),
+        ...stickers,
+    ];
+
+    const composited = layers.background.composite(composites);
+    const finalImage = await (options.format === "png" ? composited.png() : composited.jpeg({ quality: 95 })).toBuffer();
+
+    console.log(`Creative generated: ${finalImage.length} bytes`);
+    return finalImage;
+}
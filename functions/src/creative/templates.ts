@@ -0,0 +1,157 @@
+/**
+ * Creative Templates - Layouts for each creative format
+ *
+ * A template declares the canvas size, the background (an image in
+ * functions/assets or a solid color) and where each layer goes:
+ * - title: dark rounded bar with the product title
+ * - product: area the product image is fitted into
+ * - price: current price, with the struck original price above it
+ * - overlays: optional stickers (see overlays.ts); leave a slot out to
+ *   disable that component for the template
+ *
+ * Slots are absolute pixel boxes on the template canvas. The same
+ * ProductData renders with any template; generateCreative stores each
+ * template's output separately.
+ */
+
+import type { ProductFit } from "./imagePrep";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TemplateId = "feed" | "story" | "banner";
+
+export interface Box {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface CreativeTemplate {
+    id: TemplateId;
+    name: string;
+    version: number;             // Bump when the layout changes (invalidates stored creatives)
+    width: number;
+    height: number;
+
+    background: {
+        asset?: string;          // File in functions/assets, resized to cover the canvas
+        color: string;           // Used when there is no asset (and behind it)
+    };
+
+    fonts: {
+        family: string;          // Registered in renderer.ts (Figtree)
+        titleWeight: string;
+        priceWeight: string;
+    };
+
+    title: Box & {
+        opacity: number;         // Bar opacity (0.0 to 1.0)
+        radius: number;
+        padding: number;         // Inner padding around the text
+        maxFontSize: number;     // Titles shrink from here...
+        minFontSize: number;     // ...down to here, then truncate
+        maxLines: number;
+    };
+
+    product: Box & {
+        fit: ProductFit;         // "auto" picks contain/cover by aspect ratio
+        removeBackground: boolean;
+        shadow: boolean;
+    };
+
+    price: Box & {
+        fontSize: number;
+        outlineWidth: number;
+        originalFontSize: number;
+    };
+
+    overlays: {
+        discountBadge?: Box;     // "-35%" badge
+        rating?: Box;            // Stars and review count
+        historicalLow?: Box;     // "Menor preço histórico" ribbon
+        coupon?: Box;            // Coupon-code chip
+    };
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export const BRAND_COLOR = "#F3D217"; // Yellow
+
+const FONTS = { family: "Figtree", titleWeight: "bold", priceWeight: "900" };
+
+export const TEMPLATES: Record<TemplateId, CreativeTemplate> = {
+    // Instagram / WhatsApp feed post
+    feed: {
+        id: "feed",
+        name: "Feed 1080×1080",
+        version: 1,
+        width: 1080,
+        height: 1080,
+        background: { asset: "amz_1080.jpg", color: BRAND_COLOR },
+        fonts: FONTS,
+        title: { left: 50, top: 210, width: 980, height: 120, opacity: 0.8, radius: 20, padding: 6, maxFontSize: 54, minFontSize: 36, maxLines: 2 },
+        product: { left: 140, top: 250, width: 800, height: 600, fit: "auto", removeBackground: true, shadow: true },
+        price: { left: 0, top: 838, width: 1080, height: 242, fontSize: 140, outlineWidth: 8, originalFontSize: 50 },
+        overlays: {
+            discountBadge: { left: 830, top: 350, width: 200, height: 200 },
+            rating: { left: 40, top: 770, width: 400, height: 56 },
+            historicalLow: { left: 0, top: 350, width: 460, height: 64 },
+            coupon: { left: 640, top: 766, width: 400, height: 64 },
+        },
+    },
+
+    // Instagram stories / WhatsApp status
+    story: {
+        id: "story",
+        name: "Story 1080×1920",
+        version: 1,
+        width: 1080,
+        height: 1920,
+        background: { color: BRAND_COLOR },
+        fonts: FONTS,
+        title: { left: 50, top: 220, width: 980, height: 200, opacity: 0.8, radius: 28, padding: 16, maxFontSize: 72, minFontSize: 44, maxLines: 3 },
+        product: { left: 90, top: 500, width: 900, height: 900, fit: "auto", removeBackground: true, shadow: true },
+        price: { left: 0, top: 1460, width: 1080, height: 300, fontSize: 170, outlineWidth: 10, originalFontSize: 60 },
+        overlays: {
+            discountBadge: { left: 800, top: 450, width: 240, height: 240 },
+            rating: { left: 60, top: 1790, width: 460, height: 70 },
+            historicalLow: { left: 0, top: 450, width: 560, height: 80 },
+            coupon: { left: 560, top: 1790, width: 460, height: 70 },
+        },
+    },
+
+    // Telegram link banner: product on the left, text on the right
+    banner: {
+        id: "banner",
+        name: "Banner 1280×720",
+        version: 1,
+        width: 1280,
+        height: 720,
+        background: { color: BRAND_COLOR },
+        fonts: FONTS,
+        title: { left: 660, top: 90, width: 580, height: 200, opacity: 0.8, radius: 20, padding: 16, maxFontSize: 48, minFontSize: 30, maxLines: 3 },
+        product: { left: 40, top: 60, width: 600, height: 600, fit: "auto", removeBackground: true, shadow: true },
+        price: { left: 660, top: 360, width: 580, height: 220, fontSize: 110, outlineWidth: 7, originalFontSize: 44 },
+        overlays: {
+            discountBadge: { left: 40, top: 40, width: 170, height: 170 },
+            rating: { left: 660, top: 300, width: 420, height: 50 },
+            historicalLow: { left: 660, top: 20, width: 580, height: 56 },
+            coupon: { left: 660, top: 600, width: 580, height: 70 },
+        },
+    },
+};
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = "feed";
+
+export function isTemplateId(value: unknown): value is TemplateId {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(TEMPLATES, value);
+}
+
+export function getTemplate(id: TemplateId = DEFAULT_TEMPLATE_ID): CreativeTemplate {
+    return TEMPLATES[id];
+}
@@ -0,0 +1,319 @@
+/**
+ * Text Layout - Measured line breaking for creative text
+ *
+ * - cleanProductTitle: strips the noise Amazon titles carry (repeated brand,
+ *   model codes, "Cor: Preto" style attribute suffixes)
+ * - layoutText: fits text into a box using real glyph widths
+ *   (ctx.measureText), shrinking the font until it fits, hyphenating long
+ *   Portuguese words and truncating at a word boundary with "…" when even
+ *   the smallest size overflows
+ * - fitFontSize: single-line variant for labels and stickers
+ *
+ * Measurement goes through the TextMeasurer interface, which a node-canvas
+ * 2D context satisfies.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    FONT_STEP: 2,                // px per shrink step
+    LINE_HEIGHT: 1.2,            // Line height as a multiple of font size
+
+    // Words at least this long may be hyphenated to fill a line
+    MIN_HYPHENATE_LENGTH: 8,
+    // Minimum characters kept on each side of a hyphen
+    MIN_HYPHEN_FRAGMENT: 3,
+    // Only hyphenate into a line that still has this share of its width free
+    MIN_FREE_FOR_HYPHEN: 0.25,
+
+    ELLIPSIS: "…",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TextMeasurer {
+    font: string;
+    measureText(text: string): { width: number };
+}
+
+export interface TextLayoutOptions {
+    width: number;
+    height: number;
+    font: (size: number) => string;  // CSS font for a pixel size
+    maxFontSize: number;
+    minFontSize: number;
+    maxLines: number;
+    lineHeight?: number;
+}
+
+export interface TextLayout {
+    lines: string[];
+    fontSize: number;
+    lineHeight: number;            // px
+    truncated: boolean;
+}
+
+// ============================================================================
+// TITLE CLEANUP
+// ============================================================================
+
+const ATTRIBUTE_KEYS = "cor|cores|color|tamanho|voltagem|modelo|sabor|estilo";
+
+// Trailing "Key: value" attributes, only when marked as such: a colon
+// ("Cor: Preto"), a separator before a short value ("..., Cor Preto",
+// "- Tamanho G") or parentheses ("(Cor Azul)"). A bare key inside the
+// title is part of the name ("Ração Golden Sabor Frango para Cães").
+const ATTRIBUTE_SUFFIXES = [
+    String.raw`[\s,;|–—-]*\b(?:${ATTRIBUTE_KEYS})\s*:\s*[^,;|()]*`,  // Cor: Preto
+    String.raw`(?:\s*[,;|–—]|\s+-)\s*\b(?:${ATTRIBUTE_KEYS})\s+[^\s,;|()]+(?:\s+[^\s,;|()]+){0,2}`,  // , Cor Preto
+    String.raw`\s*\(\s*(?:${ATTRIBUTE_KEYS})\b\s*:?[^()]*\)`,  // (Cor Azul)
+];
+const ATTRIBUTE_SUFFIX = new RegExp(`(?:${ATTRIBUTE_SUFFIXES.join("|")})\\s*$`, "i");
+
+// Model codes: mixed letters and digits, upper case, long or punctuated
+// ("SM-A155MZKPZTO", "MQKJ3BZ/A", "B0CXYZ1234")
+const MODEL_CODE = /^(?=[A-Z0-9/-]*\d)(?=[A-Z0-9/-]*[A-Z])[A-Z0-9]+(?:[/-][A-Z0-9]+)*$/;
+
+// Measurements that look like codes but are useful ("128GB", "10,1KG", "4K")
+const MEASUREMENT = /^\d+([.,]\d+)?(GB|TB|MB|MAH|W|ML|L|KG|G|MM|CM|M|HZ|MP|K|V|BT|PCS|UN)$/i;
+
+function isModelCode(token: string): boolean {
+    const word = token.replace(/^[(\[]+|[)\],.;:]+$/g, "");
+    if (MEASUREMENT.test(word)) return false;
+    return MODEL_CODE.test(word) && (word.length >= 8 || (word.length >= 5 && /[/-]/.test(word)));
+}
+
+/**
+ * Remove noise from a marketplace product title
+ */
+export function cleanProductTitle(title: string): string {
+    let text = title.replace(/\s+/g, " ").trim();
+
+    // Attribute suffixes, possibly several ("Cor: Preto, Tamanho: G")
+    for (let i = 0; i < 3; i++) {
+        const stripped = text.replace(ATTRIBUTE_SUFFIX, "").trim();
+        if (stripped === text || stripped.length < 10) break;
+        text = stripped;
+    }
+
+    // Model codes
+    text = text.split(" ").filter((token) => !isModelCode(token)).join(" ");
+
+    // Brand repeated later in the title ("JBL Fone JBL Tune" → "JBL Fone Tune")
+    const words = text.split(" ");
+    const brand = words[0]?.toLowerCase();
+    if (brand && brand.length >= 2 && /[a-z]/i.test(brand)) {
+        text = words.filter((word, i) => i === 0 || word.toLowerCase() !== brand).join(" ");
+    }
+
+    // Leftover separators and empty parentheses
+    return text
+        .replace(/\(\s*\)/g, "")
+        .replace(/\s+([,;:])/g, "$1")
+        .replace(/([,;:|–—-]\s*){2,}/g, "$1")
+        .replace(/^[\s,;:|–—-]+|[\s,;:|–—-]+$/g, "")
+        .replace(/\s+/g, " ")
+        .trim() || title.trim();
+}
+
+// ============================================================================
+// HYPHENATION
+// ============================================================================
+
+const VOWELS = "aeiouáéíóúâêôãõàü";
+
+// Consonant pairs that stay together in Portuguese syllables
+const INSEPARABLE = new Set([
+    "bl", "br", "cl", "cr", "dr", "fl", "fr", "gl", "gr", "pl", "pr", "tl", "tr", "vr",
+    "ch", "lh", "nh", "gu", "qu",
+]);
+
+function isVowel(char: string): boolean {
+    return VOWELS.includes(char.toLowerCase());
+}
+
+/**
+ * Positions where a Portuguese word can be hyphenated (index of the first
+ * character after the break). Simplified syllable rules:
+ * V-CV, VC-CV (except inseparable pairs: V-CCV), VCC-CV.
+ */
+export function hyphenationPoints(word: string): number[] {
+    const points: number[] = [];
+    const lower = word.toLowerCase();
+
+    for (let i = 1; i < lower.length - 1; i++) {
+        if (!isVowel(lower[i - 1]) || isVowel(lower[i])) continue;
+
+        // Run of consonants starting at i, followed by a vowel
+        let end = i;
+        while (end < lower.length && !isVowel(lower[end]) && /\p{L}/u.test(lower[end])) end++;
+        if (end >= lower.length || !isVowel(lower[end])) continue;
+
+        const run = end - i;
+        let point: number;
+        if (run === 1) point = i;                                               // ca-sa
+        else if (INSEPARABLE.has(lower.slice(end - 2, end))) point = end - 2;  // li-vro, fi-lho
+        else point = end - 1;                                                  // car-ta, pers-pi-caz
+
+        if (point >= CONFIG.MIN_HYPHEN_FRAGMENT && word.length - point >= CONFIG.MIN_HYPHEN_FRAGMENT) {
+            points.push(point);
+        }
+        i = end - 1;
+    }
+
+    return points;
+}
+
+/**
+ * Split `word` at the last hyphenation point whose head (plus "-") fits
+ * `maxWidth`. Returns null if no point fits.
+ */
+function hyphenate(ctx: TextMeasurer, word: string, maxWidth: number): [string, string] | null {
+    const points = hyphenationPoints(word);
+    for (let i = points.length - 1; i >= 0; i--) {
+        const head = `${word.slice(0, points[i])}-`;
+        if (ctx.measureText(head).width <= maxWidth) return [head, word.slice(points[i])];
+    }
+    return null;
+}
+
+// ============================================================================
+// LINE BREAKING
+// ============================================================================
+
+/**
+ * Break text into lines no wider than `width` at the context's current font
+ */
+function breakLines(ctx: TextMeasurer, text: string, width: number): string[] {
+    const words = text.split(" ").filter(Boolean);
+    const lines: string[] = [];
+    let line = "";
+
+    while (words.length > 0) {
+        const word = words.shift() as string;
+        const candidate = line ? `${line} ${word}` : word;
+
+        if (ctx.measureText(candidate).width <= width) {
+            line = candidate;
+            continue;
+        }
+
+        // Hyphenate long words into the free space of the current line, or
+        // when they are too wide for a line of their own
+        const prefix = line ? `${line} ` : "";
+        const free = width - ctx.measureText(prefix).width;
+        const tooWide = ctx.measureText(word).width > width;
+
+        if (word.length >= CONFIG.MIN_HYPHENATE_LENGTH && (tooWide || free >= width * CONFIG.MIN_FREE_FOR_HYPHEN)) {
+            const split = hyphenate(ctx, word, free);
+            if (split) {
+                lines.push(prefix + split[0]);
+                line = "";
+                words.unshift(split[1]);
+                continue;
+            }
+        }
+
+        if (line) {
+            lines.push(line);
+            line = "";
+            words.unshift(word);
+        } else {
+            // Unbreakable word wider than the box: it gets its own line and
+            // is truncated if it ends up last
+            lines.push(word);
+        }
+    }
+
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * Shorten `line` at a word boundary until it fits with an ellipsis
+ */
+function truncateLine(ctx: TextMeasurer, line: string, width: number): string {
+    const words = line.split(" ");
+
+    while (words.length > 1) {
+        const candidate = words.join(" ").replace(/[\s,;:|–—-]+$/, "") + CONFIG.ELLIPSIS;
+        if (ctx.measureText(candidate).width <= width) return candidate;
+        words.pop();
+    }
+
+    // A single word: cut characters instead
+    let word = words[0] || "";
+    while (word.length > 1 && ctx.measureText(word + CONFIG.ELLIPSIS).width > width) {
+        word = word.slice(0, -1);
+    }
+    return word + CONFIG.ELLIPSIS;
+}
+
+/**
+ * Fit text into a box: the largest font size whose lines fit both the
+ * width and the height, hyphenating where it helps. At the minimum size,
+ * extra lines are dropped and the last line is truncated with "…".
+ * Leaves the context's font set to the chosen size.
+ */
+export function layoutText(ctx: TextMeasurer, text: string, options: TextLayoutOptions): TextLayout {
+    const lineHeightRatio = options.lineHeight ?? CONFIG.LINE_HEIGHT;
+
+    for (let size = options.maxFontSize; size >= options.minFontSize; size -= CONFIG.FONT_STEP) {
+        ctx.font = options.font(size);
+        const lines = breakLines(ctx, text, options.width);
+        const lineHeight = size * lineHeightRatio;
+        const fitsWidth = lines.every((line) => ctx.measureText(line).width <= options.width);
+
+        if (lines.length <= options.maxLines && lines.length * lineHeight <= options.height && fitsWidth) {
+            return { lines, fontSize: size, lineHeight, truncated: false };
+        }
+    }
+
+    // Nothing fits: smallest size, as many lines as the box holds
+    const size = options.minFontSize;
+    const lineHeight = size * lineHeightRatio;
+    const maxLines = Math.max(1, Math.min(options.maxLines, Math.floor(options.height / lineHeight)));
+
+    ctx.font = options.font(size);
+    const lines = breakLines(ctx, text, options.width);
+    const truncated = lines.length > maxLines;
+    const kept = lines.slice(0, maxLines);
+    const last = kept.length - 1;
+
+    if (truncated || ctx.measureText(kept[last]).width > options.width) {
+        // Rejoin a word hyphenated across the cut so it is dropped whole
+        const overflow = truncated
+            ? (kept[last].endsWith("-") ? kept[last].slice(0, -1) : `${kept[last]} `) + lines[maxLines]
+            : kept[last];
+        kept[last] = truncateLine(ctx, overflow, options.width);
+    }
+
+    return { lines: kept, fontSize: size, lineHeight, truncated: true };
+}
+
+/**
+ * Largest font size (up to `maxSize`) at which a single line fits `maxWidth`.
+ * Leaves the context's font set to that size.
+ */
+export function fitFontSize(
+    ctx: TextMeasurer,
+    text: string,
+    font: (size: number) => string,
+    maxWidth: number,
+    maxSize: number,
+    minSize = 10
+): number {
+    let size = maxSize;
+    ctx.font = font(size);
+    while (size > minSize && ctx.measureText(text).width > maxWidth) {
+        size -= CONFIG.FONT_STEP;
+        ctx.font = font(size);
+    }
+    return size;
+}
+
+export { CONFIG as TEXT_LAYOUT_CONFIG };
@@ -0,0 +1,197 @@
+/**
+ * Creative Golden - Compare renders against committed baseline images
+ *
+ * USAGE:
+ *   npm run golden              # render fixtures, compare with baselines
+ *   npm run golden -- --update  # (re)write baselines from current renders
+ *
+ * Every product in golden/fixtures.json is rendered (lossless PNG) with
+ * every template and compared pixel-wise with
+ * golden/baselines/<asin>-<template>.png. A pixel differs when any channel
+ * is off by more than CHANNEL_TOLERANCE; a render fails when more than
+ * MAX_DIFF_RATIO of its pixels differ (font hinting varies slightly between
+ * machines). Failures write a diff image (differing pixels in red) to
+ * tmp/golden-diff/ and exit with code 1.
+ *
+ * Rerun with --update after an intentional layout change and commit the
+ * new baselines together with the change.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import sharp from "sharp";
+import { readProductsFile } from "./creative/productFile";
+import { renderCreative } from "./creative/renderer";
+import { getTemplate, TEMPLATES, TemplateId } from "./creative/templates";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    GOLDEN_DIR: path.join(__dirname, "..", "golden"),
+    DIFF_DIR: path.join(__dirname, "..", "tmp", "golden-diff"),
+
+    // Per-channel difference (0-255) still treated as equal
+    CHANNEL_TOLERANCE: 16,
+
+    // Share of differing pixels a render may have and still pass
+    MAX_DIFF_RATIO: 0.002,
+};
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+export interface ImageDiff {
+    sameSize: boolean;
+    diffPixels: number;
+    diffRatio: number;
+    diffImage: Buffer | null;    // PNG highlighting differing pixels
+}
+
+async function toRgba(image: Buffer) {
+    return sharp(image).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Pixel-wise comparison of two images
+ */
+export async function compareImages(actual: Buffer, expected: Buffer, tolerance = CONFIG.CHANNEL_TOLERANCE): Promise<ImageDiff> {
+    const [a, e] = await Promise.all([toRgba(actual), toRgba(expected)]);
+
+    if (a.info.width !== e.info.width || a.info.height !== e.info.height) {
+        return { sameSize: false, diffPixels: a.info.width * a.info.height, diffRatio: 1, diffImage: null };
+    }
+
+    const { width, height } = a.info;
+    const diff = Buffer.alloc(width * height * 4);
+    let diffPixels = 0;
+
+    for (let i = 0; i < a.data.length; i += 4) {
+        const differs =
+            Math.abs(a.data[i] - e.data[i]) > tolerance ||
+            Math.abs(a.data[i + 1] - e.data[i + 1]) > tolerance ||
+            Math.abs(a.data[i + 2] - e.data[i + 2]) > tolerance ||
+            Math.abs(a.data[i + 3] - e.data[i + 3]) > tolerance;
+
+        if (differs) {
+            diffPixels++;
+            diff.set([255, 0, 0, 255], i);
+        } else {
+            // Faded copy of the expected image for context
+            const gray = Math.round((e.data[i] + e.data[i + 1] + e.data[i + 2]) / 3);
+            diff.set([gray, gray, gray, 64], i);
+        }
+    }
+
+    const diffImage = diffPixels > 0
+        ? await sharp(diff, { raw: { width, height, channels: 4 } }).png().toBuffer()
+        : null;
+
+    return { sameSize: true, diffPixels, diffRatio: diffPixels / (width * height), diffImage };
+}
+
+// ============================================================================
+// GOLDEN CHECK
+// ============================================================================
+
+export type GoldenStatus = "match" | "updated" | "missing" | "size" | "diff";
+
+export interface GoldenResult {
+    name: string;            // <asin>-<template>.png
+    status: GoldenStatus;
+    diffPixels: number;
+    diffRatio: number;
+}
+
+/**
+ * Render every fixture with every template and compare it with its
+ * baseline (or overwrite the baseline with `update`). Failed renders are
+ * written to DIFF_DIR with their diff image.
+ */
+export async function runGolden(update = false): Promise<GoldenResult[]> {
+    const baselineDir = path.join(CONFIG.GOLDEN_DIR, "baselines");
+    const products = readProductsFile(path.join(CONFIG.GOLDEN_DIR, "fixtures.json"));
+    const templateIds = Object.keys(TEMPLATES) as TemplateId[];
+    const results: GoldenResult[] = [];
+
+    fs.mkdirSync(baselineDir, { recursive: true });
+
+    for (const product of products) {
+        for (const templateId of templateIds) {
+            const name = `${product.asin}-${templateId}.png`;
+            const baselinePath = path.join(baselineDir, name);
+            const actual = await renderCreative(product, getTemplate(templateId), { format: "png", allowLocalImages: true });
+
+            if (update) {
+                fs.writeFileSync(baselinePath, actual);
+                results.push({ name, status: "updated", diffPixels: 0, diffRatio: 0 });
+                continue;
+            }
+
+            if (!fs.existsSync(baselinePath)) {
+                results.push({ name, status: "missing", diffPixels: 0, diffRatio: 0 });
+                continue;
+            }
+
+            const diff = await compareImages(actual, fs.readFileSync(baselinePath));
+            const status: GoldenStatus = !diff.sameSize ? "size" : diff.diffRatio > CONFIG.MAX_DIFF_RATIO ? "diff" : "match";
+
+            if (status === "diff") {
+                fs.mkdirSync(CONFIG.DIFF_DIR, { recursive: true });
+                fs.writeFileSync(path.join(CONFIG.DIFF_DIR, name), actual);
+                if (diff.diffImage) fs.writeFileSync(path.join(CONFIG.DIFF_DIR, name.replace(".png", ".diff.png")), diff.diffImage);
+            }
+
+            results.push({ name, status, diffPixels: diff.diffPixels, diffRatio: diff.diffRatio });
+        }
+    }
+
+    return results;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(): Promise<void> {
+    const update = process.argv.includes("--update");
+    const results = await runGolden(update);
+
+    for (const r of results) {
+        switch (r.status) {
+            case "updated":
+                console.log(`↻ ${r.name} updated`);
+                break;
+            case "missing":
+                console.error(`? ${r.name}: no baseline (run with --update)`);
+                break;
+            case "size":
+                console.error(`✗ ${r.name}: size differs from baseline`);
+                break;
+            case "diff":
+                console.error(`✗ ${r.name}: ${r.diffPixels} pixels differ (${(r.diffRatio * 100).toFixed(2)}%)`);
+                break;
+            default:
+                console.log(`✓ ${r.name}${r.diffPixels ? ` (${r.diffPixels} pixels within tolerance)` : ""}`);
+        }
+    }
+
+    if (update) return;
+
+    const failed = results.filter((r) => r.status === "size" || r.status === "diff").length;
+    const passed = results.filter((r) => r.status === "match").length;
+    console.log(`\n${passed}/${results.length} renders match their baselines`);
+    if (failed > 0) console.log(`Diffs written to ${CONFIG.DIFF_DIR}`);
+    if (passed < results.length) process.exit(1);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Golden comparison failed:", error);
+        process.exit(1);
+    });
+}
+
+export { CONFIG as GOLDEN_CONFIG };
@@ -0,0 +1,341 @@
+/**
+ * CTR Learning - Feed click-through rates back into deal scoring
+ *
+ * A scheduled job aggregates human clicks per segment (category, price band,
+ * source, discount band) over a rolling window and turns them into score
+ * multipliers: segments our audience clicks more than average rise, the
+ * rest sink. Multipliers are smoothed towards 1.0 when data is thin and
+ * clamped so a single viral deal cannot dominate.
+ *
+ * Every run is stored as a version in settings/ctrWeights/versions/{id}.
+ * settings/ctrWeights holds the active version (read by dealScoring.ts);
+ * rolling back just re-activates an older version.
+ */
+
+import * as admin from "firebase-admin";
+import { getFirestore } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onRequest } from "firebase-functions/v2/https";
+import { CTR_MULTIPLIER_RANGE, CtrMultipliers, discountBand, priceBand, sourceKey } from "./dealScoring";
+import { isCountableClick } from "./clickClassification";
+import { ALLOWED_ORIGINS, requireRole } from "./auth";
+
+const db = getFirestore();
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Rolling window of clicks/products considered
+    WINDOW_DAYS: 30,
+
+    // Pseudo-impressions at the global CTR added to every segment
+    // (Bayesian smoothing: small segments stay close to 1.0)
+    PRIOR_IMPRESSIONS: 20,
+
+    // Multiplier bounds (also applied to a deal's combined multiplier)
+    MIN_MULTIPLIER: CTR_MULTIPLIER_RANGE.min,
+    MAX_MULTIPLIER: CTR_MULTIPLIER_RANGE.max,
+
+    // Don't learn anything from fewer clicks than this
+    MIN_TOTAL_CLICKS: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Dimension = "category" | "priceBand" | "source" | "discountBand";
+
+const DIMENSIONS: Dimension[] = ["category", "priceBand", "source", "discountBand"];
+
+export interface CtrProduct {
+    id: string;
+    category?: string;
+    price?: number;
+    discount?: number;
+    source?: string;
+}
+
+export interface SegmentStats {
+    impressions: number;  // Products exposed in the window
+    clicks: number;
+    ctr: number;          // Clicks per exposed product
+}
+
+export interface CtrAggregation {
+    totalImpressions: number;
+    totalClicks: number;
+    globalCtr: number;
+    segments: Record<Dimension, Record<string, SegmentStats>>;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+function segmentKeys(product: CtrProduct): Record<Dimension, string> {
+    return {
+        category: product.category || "other",
+        priceBand: priceBand(product.price),
+        source: sourceKey(product.source),
+        discountBand: discountBand(product.discount),
+    };
+}
+
+/**
+ * Aggregate clicks per segment. `clickCounts` maps productId -> clicks.
+ */
+export function aggregateCtr(products: CtrProduct[], clickCounts: Map<string, number>): CtrAggregation {
+    const segments = {} as Record<Dimension, Record<string, SegmentStats>>;
+    DIMENSIONS.forEach((d) => {
+        segments[d] = {};
+    });
+
+    let totalClicks = 0;
+
+    for (const product of products) {
+        const clicks = clickCounts.get(product.id) || 0;
+        totalClicks += clicks;
+
+        const keys = segmentKeys(product);
+        for (const dimension of DIMENSIONS) {
+            const stats = segments[dimension][keys[dimension]] ||= { impressions: 0, clicks: 0, ctr: 0 };
+            stats.impressions++;
+            stats.clicks += clicks;
+        }
+    }
+
+    for (const dimension of DIMENSIONS) {
+        for (const stats of Object.values(segments[dimension])) {
+            stats.ctr = stats.impressions > 0 ? stats.clicks / stats.impressions : 0;
+        }
+    }
+
+    return {
+        totalImpressions: products.length,
+        totalClicks,
+        globalCtr: products.length > 0 ? totalClicks / products.length : 0,
+        segments,
+    };
+}
+
+/**
+ * Turn segment CTRs into smoothed, clamped score multipliers
+ */
+export function computeMultipliers(aggregation: CtrAggregation, version: string): CtrMultipliers {
+    const { globalCtr } = aggregation;
+    const multipliers: CtrMultipliers = { version, category: {}, priceBand: {}, source: {}, discountBand: {} };
+
+    if (globalCtr <= 0) return multipliers;
+
+    for (const dimension of DIMENSIONS) {
+        for (const [key, stats] of Object.entries(aggregation.segments[dimension])) {
+            const smoothed =
+                (stats.clicks + CONFIG.PRIOR_IMPRESSIONS * globalCtr) /
+                (stats.impressions + CONFIG.PRIOR_IMPRESSIONS);
+            const ratio = smoothed / globalCtr;
+            const clamped = Math.min(Math.max(ratio, CONFIG.MIN_MULTIPLIER), CONFIG.MAX_MULTIPLIER);
+            multipliers[dimension][key] = Math.round(clamped * 1000) / 1000;
+        }
+    }
+
+    return multipliers;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+const ctrWeightsRef = () => db.collection("settings").doc("ctrWeights");
+
+/**
+ * Aggregate the last WINDOW_DAYS of clicks and store a new weights version.
+ * The version is activated unless `activate` is false.
+ */
+export async function learnCtrWeights(options: { activate?: boolean } = {}): Promise<{
+    version: string | null;
+    aggregation: CtrAggregation;
+    activated: boolean;
+}> {
+    const since = admin.firestore.Timestamp.fromMillis(Date.now() - CONFIG.WINDOW_DAYS * DAY_MS);
+
+    const [productsSnap, clicksSnap] = await Promise.all([
+        db.collection("products").where("fetchedAt", ">=", since).get(),
+        db.collection("clicks").where("timestamp", ">=", since).select("productId", "classification").get(),
+    ]);
+
+    const products: CtrProduct[] = productsSnap.docs.map((doc) => ({
+        id: doc.id,
+        category: doc.get("category"),
+        price: doc.get("price"),
+        discount: doc.get("discount"),
+        source: doc.get("source"),
+    }));
+
+    const clickCounts = new Map<string, number>();
+    clicksSnap.docs.forEach((doc) => {
+        if (!isCountableClick(doc.data())) return;
+        const productId = doc.get("productId");
+        clickCounts.set(productId, (clickCounts.get(productId) || 0) + 1);
+    });
+
+    const aggregation = aggregateCtr(products, clickCounts);
+    console.log(`CTR learning: ${aggregation.totalClicks} clicks over ${aggregation.totalImpressions} products`);
+
+    if (aggregation.totalClicks < CONFIG.MIN_TOTAL_CLICKS) {
+        console.log(`Not enough clicks to learn from (min ${CONFIG.MIN_TOTAL_CLICKS}). Keeping current weights.`);
+        return { version: null, aggregation, activated: false };
+    }
+
+    const versionRef = ctrWeightsRef().collection("versions").doc();
+    const multipliers = computeMultipliers(aggregation, versionRef.id);
+    const activate = options.activate !== false;
+
+    const current = await ctrWeightsRef().get();
+
+    const batch = db.batch();
+    batch.set(versionRef, {
+        multipliers,
+        aggregation,
+        config: CONFIG,
+        previousVersion: current.get("activeVersion") || null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (activate) {
+        batch.set(ctrWeightsRef(), {
+            activeVersion: versionRef.id,
+            multipliers,
+            enabled: current.get("enabled") ?? true,
+            activatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+    }
+
+    await batch.commit();
+    console.log(`CTR weights version ${versionRef.id} stored${activate ? " and activated" : ""}`);
+
+    return { version: versionRef.id, aggregation, activated: activate };
+}
+
+/**
+ * Activate a stored version. Without a version id, rolls back to the
+ * version that was active before the current one.
+ */
+export async function activateCtrWeights(versionId?: string): Promise<string> {
+    let targetId = versionId;
+
+    if (!targetId) {
+        const current = await ctrWeightsRef().get();
+        const activeVersion = current.get("activeVersion");
+        if (!activeVersion) throw new Error("No active CTR weights to roll back from");
+
+        const activeDoc = await ctrWeightsRef().collection("versions").doc(activeVersion).get();
+        targetId = activeDoc.get("previousVersion");
+        if (!targetId) throw new Error(`Version ${activeVersion} has no previous version`);
+    }
+
+    const versionDoc = await ctrWeightsRef().collection("versions").doc(targetId).get();
+    if (!versionDoc.exists) throw new Error(`CTR weights version ${targetId} not found`);
+
+    await ctrWeightsRef().set({
+        activeVersion: targetId,
+        multipliers: versionDoc.get("multipliers"),
+        activatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    return targetId;
+}
+
+// ============================================================================
+// CLOUD FUNCTIONS
+// ============================================================================
+
+/**
+ * Scheduled function: learn CTR weights daily at 4AM BRT
+ */
+export const learnCtrWeightsScheduled = onSchedule(
+    {
+        schedule: "0 4 * * *",
+        timeZone: "America/Sao_Paulo",
+        memory: "512MiB",
+        timeoutSeconds: 300,
+    },
+    async () => {
+        try {
+            await learnCtrWeights();
+        } catch (error) {
+            console.error("Error learning CTR weights:", error);
+            throw error;
+        }
+    }
+);
+
+/**
+ * HTTP trigger to manage CTR weights:
+ * - POST ?action=learn[&activate=false]  run the aggregation now
+ * - POST ?action=activate&version=<id>   activate a stored version
+ * - POST ?action=rollback                 re-activate the previous version
+ * - POST ?action=disable|enable           switch learned multipliers off/on
+ */
+export const ctrWeightsManual = onRequest(
+    {
+        memory: "512MiB",
+        timeoutSeconds: 300,
+        cors: ALLOWED_ORIGINS,
+    },
+    async (req, res) => {
+        if (req.method !== "POST") {
+            res.status(405).json({ error: "Method not allowed. Use POST." });
+            return;
+        }
+
+        if (!(await requireRole(req, res, "admin"))) return;
+
+        const action = req.query.action?.toString() || "learn";
+
+        try {
+            switch (action) {
+                case "learn": {
+                    const result = await learnCtrWeights({ activate: req.query.activate !== "false" });
+                    res.json({
+                        success: true,
+                        version: result.version,
+                        activated: result.activated,
+                        totalClicks: result.aggregation.totalClicks,
+                        globalCtr: result.aggregation.globalCtr,
+                    });
+                    return;
+                }
+                case "activate":
+                case "rollback": {
+                    // Without a version, activateCtrWeights rolls back
+                    const requested = req.query.version?.toString();
+                    if (action === "activate" && !requested) {
+                        res.status(400).json({ error: "version is required to activate CTR weights" });
+                        return;
+                    }
+
+                    const version = await activateCtrWeights(action === "activate" ? requested : undefined);
+                    res.json({ success: true, activeVersion: version });
+                    return;
+                }
+                case "enable":
+                case "disable":
+                    await ctrWeightsRef().set({ enabled: action === "enable" }, { merge: true });
+                    res.json({ success: true, enabled: action === "enable" });
+                    return;
+                default:
+                    res.status(400).json({ error: `Unknown action: ${action}` });
+            }
+        } catch (error) {
+            console.error("Error managing CTR weights:", error);
+            res.status(500).json({ error: error instanceof Error ? error.message : "CTR weights operation failed" });
+        }
+    }
+);
+
+export { CONFIG as CTR_LEARNING_CONFIG };
@@ -0,0 +1,329 @@
+/**
+ * Deal Scoring Engine - Shared, Firestore-configurable deal scores
+ *
+ * One scoring formula for every product source. Weights, category weights
+ * and quality thresholds live in settings/scoring so they can be tuned from
+ * the console without a redeploy. Each source type has its own profile:
+ * - community: Pelando/Promobit deals (discount, upvotes, category, ASIN bonus)
+ * - amazon: scraped/PA-API products (discount, rating, reviews, category)
+ *
+ * Every score comes with a breakdown of the points each signal contributed,
+ * stored on the product for auditability.
+ *
+ * When learned CTR multipliers are active (settings/ctrWeights, produced by
+ * ctrLearning.ts) the weighted score is scaled by the multipliers for the
+ * deal's category, price band, source and discount band. The combined
+ * multiplier is kept within the same bounds as each learned segment.
+ */
+
+import * as admin from "firebase-admin";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScoringWeights {
+    discount: number;
+    upvotes: number;
+    rating: number;
+    reviews: number;
+    category: number;
+}
+
+export interface ScoringBonuses {
+    asin: number;         // Deal has an ASIN (click tracking works)
+    dealsSource: number;  // Product came from the Amazon deals page
+}
+
+export interface ScoringScales {
+    discountForMax: number;   // Discount % that earns the full discount score
+    upvotesForMax: number;    // Upvotes that earn the full upvote score (log scale)
+    reviewsForMax: number;    // Reviews that earn the full review score (log scale)
+    ratingFloor: number;      // Rating that earns zero (5.0 earns full)
+}
+
+export interface QualityThresholds {
+    minUpvotes: number;
+    minDiscount: number;
+    minPrice: number;
+    maxPrice: number;
+    minRating: number;
+    minReviews: number;
+}
+
+export interface ScoringProfile {
+    weights: ScoringWeights;
+    bonuses: ScoringBonuses;
+    scales: ScoringScales;
+    categoryWeights: Record<string, number>;
+    thresholds: QualityThresholds;
+}
+
+/**
+ * Learned multipliers per segment (1.0 = neutral)
+ */
+export interface CtrMultipliers {
+    version: string;
+    category: Record<string, number>;
+    priceBand: Record<string, number>;
+    source: Record<string, number>;
+    discountBand: Record<string, number>;
+}
+
+export interface ScoringSettings {
+    version: string;
+    community: ScoringProfile;
+    amazon: ScoringProfile;
+    ctr?: CtrMultipliers | null;
+}
+
+export interface ScoreInput {
+    price?: number;
+    discount?: number;
+    upvotes?: number;
+    rating?: number;
+    reviewCount?: number;
+    normalizedCategory?: string;
+    asin?: string | null;
+    source?: string;
+}
+
+/**
+ * Points contributed by each signal (already weighted)
+ */
+export interface ScoreBreakdown {
+    discount: number;
+    upvotes: number;
+    rating: number;
+    reviews: number;
+    category: number;
+    bonus: number;
+    ctrMultiplier: number;
+    total: number;
+    settingsVersion: string;
+    ctrVersion: string | null;
+}
+
+// ============================================================================
+// DEFAULTS (used when settings/scoring is missing or incomplete)
+// ============================================================================
+
+const DEFAULT_SCALES: ScoringScales = {
+    discountForMax: 40,
+    upvotesForMax: 100,
+    reviewsForMax: 5000,
+    ratingFloor: 3,
+};
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+    version: "default",
+    community: {
+        weights: { discount: 0.35, upvotes: 0.30, rating: 0, reviews: 0, category: 0.20 },
+        bonuses: { asin: 15, dealsSource: 0 },
+        scales: DEFAULT_SCALES,
+        categoryWeights: { electronics: 100, home: 80, sports: 75, toys: 70, other: 50 },
+        thresholds: { minUpvotes: 5, minDiscount: 10, minPrice: 20, maxPrice: 3000, minRating: 0, minReviews: 0 },
+    },
+    amazon: {
+        weights: { discount: 0.30, upvotes: 0, rating: 0.25, reviews: 0.20, category: 0.15 },
+        bonuses: { asin: 0, dealsSource: 10 },
+        scales: DEFAULT_SCALES,
+        categoryWeights: { electronics: 100, home: 80, sports: 75, toys: 70, other: 40 },
+        thresholds: { minUpvotes: 0, minDiscount: 0, minPrice: 25, maxPrice: 2500, minRating: 3.0, minReviews: 10 },
+    },
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// SEGMENTS (shared with CTR learning)
+// ============================================================================
+
+// Bounds for each learned segment multiplier and for their product
+export const CTR_MULTIPLIER_RANGE = { min: 0.75, max: 1.25 };
+
+export function priceBand(price: number | undefined): string {
+    const p = price || 0;
+    if (p <= 0) return "unknown";
+    if (p < 50) return "0-50";
+    if (p < 100) return "50-100";
+    if (p < 250) return "100-250";
+    if (p < 500) return "250-500";
+    return "500+";
+}
+
+export function discountBand(discount: number | undefined): string {
+    const d = discount || 0;
+    if (d < 20) return "0-20";
+    if (d < 30) return "20-30";
+    if (d < 40) return "30-40";
+    return "40+";
+}
+
+export function sourceKey(source: string | undefined): string {
+    return (source || "unknown").toLowerCase();
+}
+
+/**
+ * Combined CTR multiplier for a deal: product of its segment multipliers,
+ * clamped to CTR_MULTIPLIER_RANGE (four segments could otherwise compound
+ * to 0.32-2.44)
+ */
+export function ctrMultiplierFor(input: ScoreInput, ctr: CtrMultipliers | null | undefined): number {
+    if (!ctr) return 1;
+
+    const product =
+        (ctr.category[input.normalizedCategory || "other"] ?? 1) *
+        (ctr.priceBand[priceBand(input.price)] ?? 1) *
+        (ctr.source[sourceKey(input.source)] ?? 1) *
+        (ctr.discountBand[discountBand(input.discount)] ?? 1);
+
+    return Math.min(Math.max(product, CTR_MULTIPLIER_RANGE.min), CTR_MULTIPLIER_RANGE.max);
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Score a deal with the given profile. Each signal is normalized to 0-100,
+ * weighted, and bonuses are added; the total is capped at 100.
+ */
+export function scoreDeal(
+    input: ScoreInput,
+    profile: ScoringProfile,
+    settingsVersion = "default",
+    ctr: CtrMultipliers | null = null
+): ScoreBreakdown {
+    const { weights, bonuses, scales, categoryWeights } = profile;
+    const discount = input.discount || 0;
+    const upvotes = input.upvotes || 0;
+    const rating = input.rating || 0;
+    const reviews = input.reviewCount || 0;
+    const category = input.normalizedCategory || "other";
+
+    // Discount score (0-100): discountForMax% = max
+    const discountScore = Math.min((discount / scales.discountForMax) * 100, 100);
+
+    // Upvote score (0-100): log scale
+    const upvoteScore = Math.min(
+        (Math.log10(Math.max(upvotes, 1) + 1) / Math.log10(scales.upvotesForMax)) * 100,
+        100
+    );
+
+    // Rating score (0-100): ratingFloor = 0, 5.0 = 100
+    const ratingScore = Math.max(((rating - scales.ratingFloor) / (5 - scales.ratingFloor)) * 100, 0);
+
+    // Review score (0-100): log scale
+    const reviewScore = Math.min(
+        (Math.log10(Math.max(reviews, 1)) / Math.log10(scales.reviewsForMax)) * 100,
+        100
+    );
+
+    // Category score (0-100)
+    const categoryScore = categoryWeights[category] ?? categoryWeights.other ?? 0;
+
+    const bonus =
+        (input.asin ? bonuses.asin : 0) +
+        (input.source === "deals" ? bonuses.dealsSource : 0);
+
+    const breakdown = {
+        discount: round1(discountScore * weights.discount),
+        upvotes: round1(upvoteScore * weights.upvotes),
+        rating: round1(ratingScore * weights.rating),
+        reviews: round1(reviewScore * weights.reviews),
+        category: round1(categoryScore * weights.category),
+        bonus,
+    };
+
+    const raw =
+        discountScore * weights.discount +
+        upvoteScore * weights.upvotes +
+        ratingScore * weights.rating +
+        reviewScore * weights.reviews +
+        categoryScore * weights.category +
+        bonus;
+
+    const ctrMultiplier = ctrMultiplierFor(input, ctr);
+
+    return {
+        ...breakdown,
+        ctrMultiplier: Math.round(ctrMultiplier * 100) / 100,
+        total: Math.round(Math.min(raw * ctrMultiplier, 100)),
+        settingsVersion,
+        ctrVersion: ctr?.version || null,
+    };
+}
+
+// ============================================================================
+// SETTINGS (Firestore: settings/scoring)
+// ============================================================================
+
+function mergeProfile(base: ScoringProfile, override: Partial<ScoringProfile> | undefined): ScoringProfile {
+    if (!override) return base;
+    return {
+        weights: { ...base.weights, ...override.weights },
+        bonuses: { ...base.bonuses, ...override.bonuses },
+        scales: { ...base.scales, ...override.scales },
+        categoryWeights: { ...base.categoryWeights, ...override.categoryWeights },
+        thresholds: { ...base.thresholds, ...override.thresholds },
+    };
+}
+
+/**
+ * Merge a (possibly partial) settings document over the defaults
+ */
+export function resolveScoringSettings(
+    data: admin.firestore.DocumentData | undefined,
+    ctrData?: admin.firestore.DocumentData
+): ScoringSettings {
+    const ctr = ctrData && ctrData.enabled !== false && ctrData.multipliers
+        ? { ...ctrData.multipliers, version: ctrData.activeVersion } as CtrMultipliers
+        : null;
+
+    if (!data) return { ...DEFAULT_SCORING_SETTINGS, ctr };
+
+    const updatedAt = data.updatedAt instanceof admin.firestore.Timestamp
+        ? data.updatedAt.toDate().toISOString()
+        : null;
+
+    return {
+        version: data.version?.toString() || updatedAt || "firestore",
+        community: mergeProfile(DEFAULT_SCORING_SETTINGS.community, data.community),
+        amazon: mergeProfile(DEFAULT_SCORING_SETTINGS.amazon, data.amazon),
+        ctr,
+    };
+}
+
+let cache: { settings: ScoringSettings; loadedAt: number } | null = null;
+
+/**
+ * Load scoring settings from settings/scoring plus the active CTR
+ * multipliers from settings/ctrWeights (cached for 5 minutes).
+ * Falls back to defaults if the documents are missing or unreadable.
+ */
+export async function loadScoringSettings(
+    db: admin.firestore.Firestore,
+    options: { force?: boolean } = {}
+): Promise<ScoringSettings> {
+    if (!options.force && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.settings;
+    }
+
+    try {
+        const [scoringDoc, ctrDoc] = await Promise.all([
+            db.collection("settings").doc("scoring").get(),
+            db.collection("settings").doc("ctrWeights").get(),
+        ]);
+        const settings = resolveScoringSettings(scoringDoc.data(), ctrDoc.data());
+        cache = { settings, loadedAt: Date.now() };
+        return settings;
+    } catch (error) {
+        console.error("Failed to load scoring settings, using defaults:", error);
+        return DEFAULT_SCORING_SETTINGS;
+    }
+}
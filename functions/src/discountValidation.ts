@@ -0,0 +1,182 @@
+/**
+ * Discount Validation - Detect inflated "de" prices and fake discounts
+ *
+ * Scrapers report the discount and original price claimed by the store or
+ * community post. This module checks those claims against:
+ * - the claim itself (discount % vs. original/current price)
+ * - our own observed price history (median and highest observed price)
+ *
+ * The result is a discountConfidence (0-1) stored on the product, plus a
+ * verdict used to downgrade or reject the deal before it reaches a group.
+ */
+
+import { PricePoint } from "./priceHistory";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // History window used as the price reference
+    REFERENCE_WINDOW_DAYS: 90,
+
+    // Observations needed before history is trusted
+    MIN_OBSERVATIONS: 3,
+
+    // Claimed original price may exceed the highest observed price by this much
+    ORIGINAL_PRICE_TOLERANCE: 0.05,
+
+    // Confidence multiplier when the "de" price was never observed: on its
+    // own it keeps the deal from being verified
+    INFLATED_ORIGINAL_PENALTY: 0.5,
+
+    // Claimed vs. computed discount may differ by this many points
+    CLAIM_MISMATCH_POINTS: 10,
+
+    // Confidence below this downgrades the deal, below REJECT rejects it
+    DOWNGRADE_BELOW: 0.6,
+    REJECT_BELOW: 0.25,
+
+    // Discounts smaller than this are not worth validating
+    MIN_CLAIMED_DISCOUNT: 5,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiscountVerdict = "verified" | "unverified" | "downgraded" | "rejected";
+
+export interface DiscountClaim {
+    price: number;
+    originalPrice?: number | null;
+    discount: number;
+}
+
+export interface DiscountValidation {
+    discountConfidence: number;        // 0 (fake) - 1 (fully backed by history)
+    discountVerdict: DiscountVerdict;
+    verifiedDiscount: number | null;   // Discount vs. our median observed price
+    referencePrice: number | null;     // Median observed price
+    discountFlags: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a claimed discount against the product's price history.
+ * `history` should hold prior observations only (not the current one).
+ */
+export function validateDiscount(
+    claim: DiscountClaim,
+    history: PricePoint[],
+    now = Date.now()
+): DiscountValidation {
+    const flags: string[] = [];
+    const { price } = claim;
+    const originalPrice = claim.originalPrice || 0;
+
+    // Nothing to validate
+    if (price <= 0 || claim.discount < CONFIG.MIN_CLAIMED_DISCOUNT) {
+        return {
+            discountConfidence: 1,
+            discountVerdict: "unverified",
+            verifiedDiscount: null,
+            referencePrice: null,
+            discountFlags: flags,
+        };
+    }
+
+    let confidence = 1;
+
+    // 1. Internal consistency: claimed % should match the "de" price
+    if (originalPrice > 0) {
+        const impliedDiscount = ((originalPrice - price) / originalPrice) * 100;
+        if (Math.abs(impliedDiscount - claim.discount) > CONFIG.CLAIM_MISMATCH_POINTS) {
+            flags.push("claim_mismatch");
+            confidence *= clamp01(impliedDiscount / claim.discount);
+        }
+    }
+
+    // 2. History: compare against what we actually observed
+    const windowStart = now - CONFIG.REFERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const observed = history
+        .filter((p) => p.observedAt >= windowStart && p.price > 0)
+        .map((p) => p.price);
+
+    if (observed.length < CONFIG.MIN_OBSERVATIONS) {
+        flags.push("insufficient_history");
+        return {
+            discountConfidence: Math.round(confidence * 100) / 100,
+            discountVerdict: confidence < CONFIG.REJECT_BELOW ? "rejected" : "unverified",
+            verifiedDiscount: null,
+            referencePrice: null,
+            discountFlags: flags,
+        };
+    }
+
+    const referencePrice = median(observed);
+    const highestObserved = Math.max(...observed);
+    const verifiedDiscount = Math.max(0, Math.round(((referencePrice - price) / referencePrice) * 100));
+
+    // "De" price never seen in our history
+    if (originalPrice > highestObserved * (1 + CONFIG.ORIGINAL_PRICE_TOLERANCE)) {
+        flags.push("inflated_original_price");
+        confidence *= CONFIG.INFLATED_ORIGINAL_PENALTY;
+    }
+
+    // Current price is not actually below the usual price
+    if (verifiedDiscount === 0) {
+        flags.push("no_real_discount");
+    }
+
+    confidence *= clamp01(verifiedDiscount / claim.discount);
+
+    let verdict: DiscountVerdict = "verified";
+    if (confidence < CONFIG.REJECT_BELOW) {
+        verdict = "rejected";
+    } else if (confidence < CONFIG.DOWNGRADE_BELOW) {
+        verdict = "downgraded";
+    }
+
+    return {
+        discountConfidence: Math.round(confidence * 100) / 100,
+        discountVerdict: verdict,
+        verifiedDiscount,
+        referencePrice: Math.round(referencePrice * 100) / 100,
+        discountFlags: flags,
+    };
+}
+
+/**
+ * Apply a validation result to a deal score: verified deals keep their
+ * score, downgraded deals are scaled by confidence, rejected deals drop to 0
+ */
+export function adjustScoreForDiscount(dealScore: number, validation: DiscountValidation): number {
+    switch (validation.discountVerdict) {
+        case "rejected":
+            return 0;
+        case "downgraded":
+            return Math.round(dealScore * (0.5 + validation.discountConfidence / 2));
+        default:
+            return dealScore;
+    }
+}
+
+export { CONFIG as DISCOUNT_VALIDATION_CONFIG };
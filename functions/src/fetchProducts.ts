@@ -3,20 +3,73 @@
  * Scheduled daily to discover and store top affiliate products
  * 
  * Primary: Community scraper (Pelando/Promobit)
- * Secondary: Direct Amazon scraper (currently blocked)
+ * Secondary: Amazon PA-API searches, when the Amazon credentials are set
  */
 
 import * as admin from "firebase-admin";
 import { getFirestore } from "firebase-admin/firestore";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import { onRequest } from "firebase-functions/v2/https";
-import { discoverCommunityDeals, CommunityDeal } from "./scraper/communityScraper";
+import { discoverCommunityDeals, CommunityDeal, DiscoverOptions } from "./scraper/communityScraper";
+import { backfillProductAsins } from "./scraper/asinEnrichment";
+import { createPaapiClientFromEnv, discoverPaapiProducts, paapiProductToDeal } from "./scraper/paapiClient";
+import { getRecentPriceHistory, recordPriceObservation } from "./priceHistory";
+import { loadScoringSettings, ScoringSettings } from "./dealScoring";
+import { adjustScoreForDiscount, validateDiscount, DISCOUNT_VALIDATION_CONFIG } from "./discountValidation";
+import { createNotifierFromEnv, HotDeal } from "./notifier";
+import { ALLOWED_ORIGINS, requireRole } from "./auth";
+import { initialCreativeFields } from "./creative/creativeStatus";
 
 const db = getFirestore();
 
 // Partner tag for affiliate links
 const PARTNER_TAG = process.env.AMAZON_PARTNER_TAG || "ihuofertas-20";
 
+// Function timeout for both fetches. ASIN lookups (enrichment, then the
+// backfill) share one deadline that leaves SAVE_RESERVE_MS to save
+const TIMEOUT_SECONDS = 300;
+const SAVE_RESERVE_MS = 60 * 1000;
+
+function asinLookupDeadline(startedAt: number): number {
+    return startedAt + TIMEOUT_SECONDS * 1000 - SAVE_RESERVE_MS;
+}
+
+/**
+ * Community deals, plus PA-API search results when AMAZON_ACCESS_KEY,
+ * AMAZON_SECRET_KEY and AMAZON_PARTNER_TAG are set. Both sources run side
+ * by side; a product found by both keeps its higher-scored deal.
+ */
+async function discoverDeals(
+    limit: number,
+    options: DiscoverOptions & { scoring: ScoringSettings }
+): Promise<CommunityDeal[]> {
+    const paapi = createPaapiClientFromEnv(options.scoring);
+
+    const [communityDeals, paapiProducts] = await Promise.all([
+        discoverCommunityDeals(limit, options),
+        paapi
+            ? discoverPaapiProducts(paapi, limit, undefined, options.scoring).catch((error) => {
+                console.error("PA-API discovery failed:", error);
+                return [];
+            })
+            : [],
+    ]);
+
+    if (!paapi) return communityDeals;
+    console.log(`PA-API: ${paapiProducts.length} products`);
+
+    const byProduct = new Map<string, CommunityDeal>();
+    for (const deal of [...communityDeals, ...paapiProducts.map(paapiProductToDeal)]) {
+        const key = deal.asin || deal.id;
+        const existing = byProduct.get(key);
+        if (!existing || deal.dealScore > existing.dealScore) byProduct.set(key, deal);
+    }
+
+    return [...byProduct.values()]
+        .sort((a, b) => b.dealScore - a.dealScore)
+        .slice(0, limit);
+}
+
 /**
  * Convert community deal to Firestore document
  */
@@ -41,10 +94,11 @@ function toFirestoreProduct(deal: CommunityDeal) {
         originalCategory: deal.category,
         upvotes: deal.upvotes,
         dealScore: deal.dealScore,
+        scoreBreakdown: deal.scoreBreakdown || null,
         source: deal.source,
         fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
         posted: false,
-        clicks: 0,
+        ...initialCreativeFields(),
     };
 }
 
@@ -56,17 +110,21 @@ export const fetchProductsScheduled = onSchedule(
         schedule: "0 9 * * *", // 9AM UTC = 6AM BRT
         timeZone: "America/Sao_Paulo",
         memory: "512MiB",
-        timeoutSeconds: 300, // 5 minutes (community scraping is faster)
+        timeoutSeconds: TIMEOUT_SECONDS, // 5 minutes (community scraping is faster)
     },
     async () => {
-        console.log("Starting scheduled product fetch (community sources)...");
+        console.log("Starting scheduled product fetch...");
+        const notifier = createNotifierFromEnv();
+        const deadline = asinLookupDeadline(Date.now());
 
         try {
-            // Discover deals from community sources
-            const deals = await discoverCommunityDeals(20);
+            // Discover deals from community sources (and PA-API if configured)
+            const scoring = await loadScoringSettings(db);
+            const deals = await discoverDeals(20, { scoring, notifier, deadline });
 
             if (deals.length === 0) {
-                console.warn("No deals discovered from community sources!");
+                console.warn("No deals discovered!");
+                await notifier.notifyNoDeals("fetchProductsScheduled");
                 return;
             }
 
@@ -76,12 +134,35 @@ export const fetchProductsScheduled = onSchedule(
             const batch = db.batch();
             let newCount = 0;
             let updateCount = 0;
+            let rejectedCount = 0;
+            const newDeals: HotDeal[] = [];
 
             for (const deal of deals) {
                 const docId = deal.asin || deal.id;
                 const docRef = db.collection("products").doc(docId);
                 const existing = await docRef.get();
 
+                // Check the claimed discount against our observed prices
+                const history = existing.exists
+                    ? await getRecentPriceHistory(docRef, DISCOUNT_VALIDATION_CONFIG.REFERENCE_WINDOW_DAYS)
+                    : [];
+                const validation = validateDiscount(deal, history);
+                const dealScore = adjustScoreForDiscount(deal.dealScore, validation);
+
+                if (validation.discountVerdict === "rejected") {
+                    console.warn(`Fake discount rejected: ${deal.title.substring(0, 50)} (${validation.discountFlags.join(", ")})`);
+                    rejectedCount++;
+                    if (!existing.exists) continue;
+                }
+
+                // Append to price history and recompute lowest/highest fields
+                const priceStats = await recordPriceObservation(batch, docRef, existing.data(), {
+                    price: deal.price,
+                    originalPrice: deal.originalPrice,
+                    discount: deal.discount,
+                    source: deal.source,
+                }, history);
+
                 if (existing.exists) {
                     // Update only price-related fields
                     batch.update(docRef, {
@@ -89,31 +170,50 @@ export const fetchProductsScheduled = onSchedule(
                         originalPrice: deal.originalPrice || null,
                         discount: deal.discount,
                         upvotes: deal.upvotes,
-                        dealScore: deal.dealScore,
+                        dealScore,
+                        scoreBreakdown: deal.scoreBreakdown || null,
+                        ...priceStats,
+                        ...validation,
                         fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
                     });
                     updateCount++;
                 } else {
                     // Create new product
-                    batch.set(docRef, toFirestoreProduct(deal));
+                    const product = toFirestoreProduct(deal);
+                    batch.set(docRef, { ...product, ...priceStats, ...validation, dealScore });
+                    newDeals.push({ ...product, id: docId, dealScore });
                     newCount++;
                 }
             }
 
             await batch.commit();
-            console.log(`Fetch complete: ${newCount} new, ${updateCount} updated`);
+            console.log(`Fetch complete: ${newCount} new, ${updateCount} updated, ${rejectedCount} fake discounts`);
+
+            const hotDeals = await notifier.notifyHotDeals(newDeals);
+
+            // Resolve ASINs for older products saved without one
+            const backfill = await backfillProductAsins(db, PARTNER_TAG, undefined, deadline).catch((error) => {
+                console.error("ASIN backfill failed:", error);
+                return null;
+            });
 
             // Log metrics
             await db.collection("metrics").add({
                 name: "product_fetch",
                 source: "community",
                 dealsDiscovered: deals.length,
+                paapiDeals: deals.filter((d) => d.source === "paapi").length,
+                scoringVersion: scoring.version,
                 newProducts: newCount,
                 updatedProducts: updateCount,
+                rejectedDiscounts: rejectedCount,
+                asinsBackfilled: backfill?.resolved ?? 0,
+                hotDealsNotified: hotDeals,
                 timestamp: admin.firestore.FieldValue.serverTimestamp(),
             });
         } catch (error) {
             console.error("Error in scheduled product fetch:", error);
+            await notifier.notifyFailure("fetchProductsScheduled", error);
             throw error;
         }
     }
@@ -125,8 +225,8 @@ export const fetchProductsScheduled = onSchedule(
 export const fetchProductsManual = onRequest(
     {
         memory: "512MiB",
-        timeoutSeconds: 300,
-        cors: true,
+        timeoutSeconds: TIMEOUT_SECONDS,
+        cors: ALLOWED_ORIGINS,
     },
     async (req, res) => {
         // Allow POST for API calls and GET for browser testing
@@ -135,14 +235,18 @@ export const fetchProductsManual = onRequest(
             return;
         }
 
-        console.log("Starting manual product fetch (community sources)...");
+        if (!(await requireRole(req, res, "editor"))) return;
+
+        console.log("Starting manual product fetch...");
+        const deadline = asinLookupDeadline(Date.now());
 
         try {
             const limitParam = req.query.limit?.toString();
             const limit = limitParam ? parseInt(limitParam, 10) : 20;
             const saveToFirestore = req.query.save !== "false";
 
-            const deals = await discoverCommunityDeals(Math.min(limit, 50));
+            const scoring = await loadScoringSettings(db);
+            const deals = await discoverDeals(Math.min(limit, 50), { scoring, deadline });
 
             let newCount = 0;
 
@@ -156,7 +260,21 @@ export const fetchProductsManual = onRequest(
                     const existing = await docRef.get();
 
                     if (!existing.exists) {
-                        batch.set(docRef, toFirestoreProduct(deal));
+                        const validation = validateDiscount(deal, []);
+                        if (validation.discountVerdict === "rejected") continue;
+
+                        const priceStats = await recordPriceObservation(batch, docRef, undefined, {
+                            price: deal.price,
+                            originalPrice: deal.originalPrice,
+                            discount: deal.discount,
+                            source: deal.source,
+                        });
+                        batch.set(docRef, {
+                            ...toFirestoreProduct(deal),
+                            ...priceStats,
+                            ...validation,
+                            dealScore: adjustScoreForDiscount(deal.dealScore, validation),
+                        });
                         newCount++;
                     }
                 }
@@ -168,6 +286,7 @@ export const fetchProductsManual = onRequest(
                 success: true,
                 source: "community",
                 dealsDiscovered: deals.length,
+                paapiDeals: deals.filter((d) => d.source === "paapi").length,
                 newProducts: newCount,
                 savedToFirestore: saveToFirestore,
                 deals: deals.slice(0, 10).map((d) => ({
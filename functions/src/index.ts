@@ -1,6 +1,10 @@
 import * as admin from "firebase-admin";
-import { onRequest } from "firebase-functions/v2/https";
-import * as crypto from "crypto";
+import { onRequest, Request } from "firebase-functions/v2/https";
+import { ClickSignals, classifyBySignature, classifyClick, hasRecentHumanClick } from "./clickClassification";
+import { applyClickToCounters } from "./clickCounters";
+import { clickTokenSecret, issueClickToken, verifyClickToken } from "./clickToken";
+import { CLICK_VALIDATION_CONFIG, isValidProductId, productIdFromPath, TrackClickBody, validateTrackClickBody } from "./clickValidation";
+import { consumeRateLimit, hashClientIp, rateLimitByIp, RateLimitRule } from "./rateLimit";
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -10,12 +14,107 @@ const db = admin.firestore();
 export { fetchProductsScheduled, fetchProductsManual } from "./fetchProducts";
 
 // Re-export creative generation functions
-export { generateCreative, generateAllCreatives } from "./creativeGenerator";
+export {
+    generateCreative,
+    generateAllCreatives,
+    pruneCreativesScheduled,
+    renderCreativesOnProductWrite,
+    processCreativeQueueScheduled,
+} from "./creativeGenerator";
 
-interface TrackClickBody {
-    productId: string;
-    timestamp: number;
+// Re-export CTR learning functions
+export { learnCtrWeightsScheduled, ctrWeightsManual } from "./ctrLearning";
+
+// Re-export group posting functions
+export { enqueuePostsScheduled, processPostQueueScheduled, postingManual } from "./postScheduler";
+
+// Re-export analytics API
+export { analytics } from "./analyticsApi";
+
+/**
+ * Load a product, following the `mergedInto` pointer left behind when a
+ * deal was merged into its ASIN-keyed document
+ */
+async function getProductSnapshot(productId: string) {
+    const productDoc = await db.collection("products").doc(productId).get();
+    const mergedInto = productDoc.get("mergedInto");
+
+    if (productDoc.exists && mergedInto) {
+        return db.collection("products").doc(mergedInto).get();
+    }
+    return productDoc;
+}
+
+// Per-IP limits for the public endpoints, plus clicks per IP and product
+// (shared by trackClick and goRedirect)
+const PUBLIC_RATE_LIMITS: Record<"trackClick" | "getProduct" | "click", RateLimitRule> = {
+    trackClick: { limit: 30, windowSeconds: 60 },
+    getProduct: { limit: 60, windowSeconds: 60 },
+    click: { limit: 5, windowSeconds: 10 * 60 },
+};
+
+interface ClickContext {
+    groupId: string;
     userAgent: string;
+    timestamp?: number;
+    via: "page" | "redirect";  // /r/ page (trackClick) or /go/ (goRedirect)
+    jsExecuted: boolean;       // Page returned the click token from getProduct
+}
+
+/**
+ * Record a classified click for a product and return its snapshot.
+ * Shared by trackClick (called from the /r/ page) and goRedirect.
+ * Clicks past the per-IP-and-product limit are not recorded
+ * (rateLimited: true, with retryAfterSeconds).
+ */
+async function recordClick(req: Request, productId: string, context: ClickContext) {
+    // Hash IP for privacy (never store raw IP)
+    const ipHash = hashClientIp(req);
+
+    // Get country from Cloudflare or default to BR
+    const country = req.headers["cf-ipcountry"]?.toString() || "BR";
+
+    // Get the product to return the affiliate link
+    const productDoc = await getProductSnapshot(productId);
+
+    if (!productDoc.exists) return { productDoc, classification: null, rateLimited: false };
+
+    const limit = await consumeRateLimit(db, "click", `${ipHash}:${productDoc.id}`, PUBLIC_RATE_LIMITS.click);
+    if (!limit.allowed) {
+        return { productDoc, classification: null, rateLimited: true, retryAfterSeconds: limit.retryAfterSeconds };
+    }
+
+    // Tag bots, previews and repeat clicks so they are excluded from counts
+    const signals: ClickSignals = { userAgent: context.userAgent, via: context.via, jsExecuted: context.jsExecuted };
+    if (!classifyBySignature(signals)) {
+        signals.recentHumanClick = await hasRecentHumanClick(db, ipHash, productDoc.id);
+    }
+    const { classification, reasons } = classifyClick(signals);
+
+    // Record the click together with its counter shard and daily rollups
+    const batch = db.batch();
+    batch.set(db.collection("clicks").doc(), {
+        productId: productDoc.id,
+        timestamp: admin.firestore.Timestamp.fromMillis(context.timestamp || Date.now()),
+        groupId: context.groupId,
+        ipHash,
+        country,
+        userAgent: context.userAgent.substring(0, CLICK_VALIDATION_CONFIG.MAX_USER_AGENT_LENGTH),
+        via: context.via,
+        classification,
+        classificationReasons: reasons,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    applyClickToCounters(batch, db, {
+        productId: productDoc.id,
+        groupId: context.groupId,
+        country,
+        classification,
+        at: Date.now(),
+    });
+    await batch.commit();
+
+    return { productDoc, classification, rateLimited: false };
 }
 
 /**
@@ -29,52 +128,48 @@ export const trackClick = onRequest({ cors: true }, async (req, res) => {
         return;
     }
 
-    try {
-        const body: TrackClickBody = req.body;
-        const { productId, timestamp, userAgent } = body;
+    if (!(await rateLimitByIp(db, req, res, "trackClick", PUBLIC_RATE_LIMITS.trackClick))) return;
 
-        if (!productId) {
-            res.status(400).json({ error: "productId is required" });
+    try {
+        const validationError = validateTrackClickBody(req.body || {});
+        if (validationError) {
+            res.status(400).json({ error: validationError });
             return;
         }
 
+        const { productId, timestamp, userAgent, clickToken }: TrackClickBody = req.body;
+
         // Get UTM source from query params for group tracking
         const groupId = req.query.utm_source?.toString() || "direct";
 
-        // Hash IP for privacy (never store raw IP)
-        const clientIp = req.headers["x-forwarded-for"]?.toString().split(",")[0] ||
-            req.ip ||
-            "unknown";
-        const ipHash = crypto.createHash("sha256").update(clientIp).digest("hex");
-
-        // Get country from Cloudflare or default to BR
-        const country = req.headers["cf-ipcountry"]?.toString() || "BR";
+        // Only a token issued by getProduct proves the page's script ran
+        // (fails closed without CLICK_TOKEN_SECRET)
+        const secret = clickTokenSecret();
+        const jsExecuted = !!secret && verifyClickToken(secret, clickToken, productId, hashClientIp(req));
 
-        // Get the product to return the affiliate link
-        const productDoc = await db.collection("products").doc(productId).get();
+        const { productDoc, rateLimited, retryAfterSeconds } = await recordClick(req, productId, {
+            groupId,
+            timestamp,
+            userAgent: userAgent || req.headers["user-agent"] || "unknown",
+            via: "page",
+            jsExecuted,
+        });
 
         if (!productDoc.exists) {
             res.status(404).json({ error: "Product not found" });
             return;
         }
 
-        const product = productDoc.data();
-
-        // Record the click
-        await db.collection("clicks").add({
-            productId,
-            timestamp: admin.firestore.Timestamp.fromMillis(timestamp || Date.now()),
-            groupId,
-            ipHash,
-            country,
-            userAgent: userAgent || req.headers["user-agent"] || "unknown",
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+        if (rateLimited) {
+            res.set("Retry-After", String(retryAfterSeconds));
+            res.status(429).json({ error: "Too many clicks for this product" });
+            return;
+        }
 
         // Return the affiliate link for redirect
         res.json({
             success: true,
-            affiliateLink: product?.affiliateLink || null,
+            affiliateLink: productDoc.get("affiliateLink") || null,
         });
     } catch (error) {
         console.error("Error tracking click:", error);
@@ -82,6 +177,46 @@ export const trackClick = onRequest({ cors: true }, async (req, res) => {
     }
 });
 
+/**
+ * Short-link redirect: /go/:id?utm_source=<group>
+ * Records the click and answers with an immediate 302 to the affiliate link.
+ * Link previews, unknown products and any failure fall back to the /r/ page.
+ */
+export const goRedirect = onRequest(async (req, res) => {
+    const productId = productIdFromPath(req.path) || req.query.id?.toString() || "";
+    const groupId = req.query.utm_source?.toString() || "direct";
+    const userAgent = req.headers["user-agent"] || "unknown";
+
+    const fallback = `/r/?${new URLSearchParams({ id: productId, utm_source: groupId }).toString()}`;
+
+    // Never cache: every hit must reach the function to be counted
+    res.set("Cache-Control", "no-store");
+
+    if (!productId || productId === "go" || !isValidProductId(productId)) {
+        res.redirect(302, fallback);
+        return;
+    }
+
+    try {
+        const { productDoc, classification } = await recordClick(req, productId, {
+            groupId,
+            userAgent,
+            via: "redirect",
+            jsExecuted: false,
+        });
+        const affiliateLink = productDoc.get("affiliateLink");
+
+        // Previews get the HTML page (title/image) rather than Amazon.
+        // Rate-limited clicks still redirect, they just aren't recorded.
+        const target = productDoc.exists && affiliateLink && classification !== "preview" ? affiliateLink : fallback;
+        res.redirect(302, target);
+    } catch (error) {
+        // Tracking failed: still send the user on, the page retries tracking
+        console.error("Error in redirect:", error);
+        res.redirect(302, fallback);
+    }
+});
+
 /**
  * Get product info for redirect page.
  * Returns product title and affiliate link.
@@ -94,8 +229,10 @@ export const getProduct = onRequest({ cors: true }, async (req, res) => {
         return;
     }
 
+    if (!(await rateLimitByIp(db, req, res, "getProduct", PUBLIC_RATE_LIMITS.getProduct))) return;
+
     try {
-        const productDoc = await db.collection("products").doc(productId).get();
+        const productDoc = await getProductSnapshot(productId);
 
         if (!productDoc.exists) {
             res.status(404).json({ error: "Product not found" });
@@ -103,12 +240,17 @@ export const getProduct = onRequest({ cors: true }, async (req, res) => {
         }
 
         const product = productDoc.data();
+        const secret = clickTokenSecret();
 
+        // The click token is per client: never share a cached response
+        res.set("Cache-Control", "no-store");
         res.json({
             id: productDoc.id,
             title: product?.title || "Oferta Especial",
             affiliateLink: product?.affiliateLink,
             imageUrl: product?.imageUrl,
+            // Sent back by the /r/ page to trackClick (same id as requested)
+            clickToken: secret ? issueClickToken(secret, productId, hashClientIp(req)) : null,
         });
     } catch (error) {
         console.error("Error getting product:", error);
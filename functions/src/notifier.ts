@@ -0,0 +1,233 @@
+/**
+ * Notifier - ntfy.sh push notifications
+ *
+ * Publishes to NTFY_SERVER/NTFY_TOPIC when:
+ * - a new deal crosses the hot-deal score threshold
+ * - a fetch run finds zero deals
+ * - a pipeline step (fetch, scrapers, creatives) errors
+ *
+ * Hot-deal notifications carry actions to open the product and to trigger
+ * generateCreative for it. Publishing never throws: a failed notification is
+ * logged and the pipeline carries on. Point NTFY_SERVER at any
+ * ntfy-compatible stub to exercise it locally.
+ */
+
+import fetch from "node-fetch";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    DEFAULT_SERVER: "https://ntfy.sh",
+
+    // Minimum dealScore for a hot-deal notification
+    HOT_DEAL_SCORE: 80,
+
+    // Cap hot-deal notifications per run (the rest are summarized)
+    MAX_HOT_DEALS_PER_RUN: 5,
+
+    // Request timeout
+    TIMEOUT_MS: 10000,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NtfyPriority = 1 | 2 | 3 | 4 | 5;
+
+export interface NtfyAction {
+    action: "view" | "http";
+    label: string;
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    clear?: boolean;
+}
+
+export interface NtfyMessage {
+    title: string;
+    message: string;
+    priority?: NtfyPriority;
+    tags?: string[];
+    click?: string;
+    actions?: NtfyAction[];
+}
+
+export interface NotifierOptions {
+    server?: string;
+    topic?: string;
+    token?: string;             // Optional access token for protected topics
+    creativeFunctionUrl?: string;
+    actionApiKey?: string;      // Editor API key sent by the "Gerar criativo" action
+}
+
+export interface HotDeal {
+    id: string;
+    asin?: string | null;
+    title: string;
+    price: number;
+    discount?: number;
+    dealScore: number;
+    affiliateLink?: string | null;
+    dealUrl?: string;
+}
+
+export interface Notifier {
+    enabled: boolean;
+    publish(message: NtfyMessage): Promise<boolean>;
+    notifyHotDeals(deals: HotDeal[], threshold?: number): Promise<number>;
+    notifyNoDeals(pipeline: string, details?: string): Promise<boolean>;
+    notifyFailure(pipeline: string, error: unknown): Promise<boolean>;
+}
+
+// ============================================================================
+// NOTIFIER
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+    if (Array.isArray(error)) return error.map(errorMessage).join("\n");
+    return error instanceof Error ? error.message : String(error);
+}
+
+function defaultCreativeFunctionUrl(): string | undefined {
+    const projectId = process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID;
+    return projectId ? `https://us-central1-${projectId}.cloudfunctions.net/generateCreative` : undefined;
+}
+
+export function createNotifier(options: NotifierOptions = {}): Notifier {
+    const server = (options.server || CONFIG.DEFAULT_SERVER).replace(/\/$/, "");
+    const topic = options.topic;
+    const creativeFunctionUrl = options.creativeFunctionUrl || defaultCreativeFunctionUrl();
+
+    async function publish(message: NtfyMessage): Promise<boolean> {
+        if (!topic) {
+            console.log(`ntfy disabled (no topic). Skipping: ${message.title}`);
+            return false;
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), CONFIG.TIMEOUT_MS);
+
+        try {
+            // JSON publishing: POST to the server root with the topic in the body
+            const response = await fetch(server, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+                },
+                body: JSON.stringify({ topic, ...message }),
+                signal: controller.signal as AbortSignal,
+            });
+
+            if (!response.ok) {
+                console.error(`ntfy publish failed: HTTP ${response.status} ${await response.text().catch(() => "")}`);
+                return false;
+            }
+            return true;
+        } catch (error) {
+            console.error(`ntfy publish failed: ${errorMessage(error)}`);
+            return false;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    function dealActions(deal: HotDeal): NtfyAction[] {
+        const actions: NtfyAction[] = [];
+        const productUrl = deal.affiliateLink || deal.dealUrl;
+
+        if (productUrl) {
+            actions.push({ action: "view", label: "Abrir produto", url: productUrl });
+        }
+        if (creativeFunctionUrl && deal.asin) {
+            actions.push({
+                action: "http",
+                label: "Gerar criativo",
+                url: creativeFunctionUrl,
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(options.actionApiKey ? { "X-API-Key": options.actionApiKey } : {}),
+                },
+                body: JSON.stringify({ asin: deal.asin }),
+                clear: true,
+            });
+        }
+
+        return actions;
+    }
+
+    return {
+        enabled: !!topic,
+        publish,
+
+        async notifyHotDeals(deals: HotDeal[], threshold = CONFIG.HOT_DEAL_SCORE): Promise<number> {
+            const hot = deals
+                .filter((d) => d.dealScore >= threshold)
+                .sort((a, b) => b.dealScore - a.dealScore);
+
+            let sent = 0;
+            for (const deal of hot.slice(0, CONFIG.MAX_HOT_DEALS_PER_RUN)) {
+                const discount = deal.discount ? ` (-${Math.round(deal.discount)}%)` : "";
+                const ok = await publish({
+                    title: `🔥 Oferta quente: score ${deal.dealScore}`,
+                    message: `${deal.title}\nR$ ${deal.price.toFixed(2).replace(".", ",")}${discount}`,
+                    priority: 4,
+                    tags: ["fire", "moneybag"],
+                    click: deal.affiliateLink || deal.dealUrl,
+                    actions: dealActions(deal),
+                });
+                if (ok) sent++;
+            }
+
+            if (hot.length > CONFIG.MAX_HOT_DEALS_PER_RUN) {
+                await publish({
+                    title: "🔥 Mais ofertas quentes",
+                    message: `+${hot.length - CONFIG.MAX_HOT_DEALS_PER_RUN} ofertas acima de ${threshold} pontos`,
+                    priority: 3,
+                    tags: ["fire"],
+                });
+            }
+
+            return sent;
+        },
+
+        async notifyNoDeals(pipeline: string, details?: string): Promise<boolean> {
+            return publish({
+                title: `⚠️ ${pipeline}: nenhuma oferta encontrada`,
+                message: details || "A execução terminou sem ofertas. Verifique as fontes e os seletores.",
+                priority: 4,
+                tags: ["warning"],
+            });
+        },
+
+        async notifyFailure(pipeline: string, error: unknown): Promise<boolean> {
+            return publish({
+                title: `🚨 ${pipeline} falhou`,
+                message: errorMessage(error).substring(0, 1000),
+                priority: 5,
+                tags: ["rotating_light"],
+            });
+        },
+    };
+}
+
+/**
+ * Notifier configured from NTFY_SERVER / NTFY_TOPIC / NTFY_TOKEN /
+ * NTFY_ACTION_API_KEY
+ */
+export function createNotifierFromEnv(): Notifier {
+    return createNotifier({
+        server: process.env.NTFY_SERVER || undefined,
+        topic: process.env.NTFY_TOPIC || undefined,
+        token: process.env.NTFY_TOKEN || undefined,
+        creativeFunctionUrl: process.env.CREATIVE_FUNCTION_URL || undefined,
+        actionApiKey: process.env.NTFY_ACTION_API_KEY || undefined,
+    });
+}
+
+export { CONFIG as NOTIFIER_CONFIG };
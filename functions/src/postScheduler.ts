@@ -0,0 +1,105 @@
+/**
+ * Post Scheduler - Cloud Functions for the group posting queue
+ *
+ * - enqueuePostsScheduled: queues the day's posts after the daily fetch
+ * - processPostQueueScheduled: delivers due posts every 10 minutes
+ * - postingManual: HTTP trigger to run either step on demand
+ *
+ * Transports are configured through TELEGRAM_BOT_TOKEN and
+ * WHATSAPP_ACCESS_TOKEN / WHATSAPP_PHONE_NUMBER_ID (see .env.example).
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onRequest } from "firebase-functions/v2/https";
+import { enqueuePosts, processPostQueue } from "./posting/postQueue";
+import { createTransportsFromEnv } from "./posting/transports";
+import { ALLOWED_ORIGINS, requireRole } from "./auth";
+
+const db = getFirestore();
+
+/**
+ * Scheduled function: queue posts daily at 9:30 BRT (after fetchProductsScheduled)
+ */
+export const enqueuePostsScheduled = onSchedule(
+    {
+        schedule: "30 9 * * *",
+        timeZone: "America/Sao_Paulo",
+        memory: "256MiB",
+        timeoutSeconds: 120,
+    },
+    async () => {
+        try {
+            const results = await enqueuePosts(db);
+            const total = results.reduce((sum, r) => sum + r.queued, 0);
+            console.log(`Queued ${total} posts across ${results.length} groups`);
+        } catch (error) {
+            console.error("Error queueing posts:", error);
+            throw error;
+        }
+    }
+);
+
+/**
+ * Scheduled function: deliver due posts every 10 minutes
+ */
+export const processPostQueueScheduled = onSchedule(
+    {
+        schedule: "*/10 * * * *",
+        timeZone: "America/Sao_Paulo",
+        memory: "256MiB",
+        timeoutSeconds: 300,
+    },
+    async () => {
+        try {
+            const result = await processPostQueue(db, createTransportsFromEnv());
+            if (result.sent || result.failed || result.retried || result.released) {
+                console.log(
+                    `Post queue: ${result.sent} sent, ${result.retried} retrying, ${result.failed} failed, ` +
+                    `${result.released} requeued after interruption`
+                );
+            }
+        } catch (error) {
+            console.error("Error processing post queue:", error);
+            throw error;
+        }
+    }
+);
+
+/**
+ * HTTP trigger for the posting queue:
+ * - POST ?action=enqueue  queue posts for every active group now
+ * - POST ?action=process  deliver posts that are due now
+ */
+export const postingManual = onRequest(
+    {
+        memory: "256MiB",
+        timeoutSeconds: 300,
+        cors: ALLOWED_ORIGINS,
+    },
+    async (req, res) => {
+        if (req.method !== "POST") {
+            res.status(405).json({ error: "Method not allowed. Use POST." });
+            return;
+        }
+
+        if (!(await requireRole(req, res, "editor"))) return;
+
+        const action = req.query.action?.toString();
+
+        try {
+            if (action === "enqueue") {
+                const results = await enqueuePosts(db);
+                res.json({ success: true, groups: results });
+            } else if (action === "process") {
+                const result = await processPostQueue(db, createTransportsFromEnv());
+                res.json({ success: true, ...result });
+            } else {
+                res.status(400).json({ error: "action must be 'enqueue' or 'process'" });
+            }
+        } catch (error) {
+            console.error("Error in manual posting:", error);
+            res.status(500).json({ error: error instanceof Error ? error.message : "Posting failed" });
+        }
+    }
+);
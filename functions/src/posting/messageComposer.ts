@@ -0,0 +1,122 @@
+/**
+ * Message Composer - Build the post sent to a group for a product
+ *
+ * Produces the caption (title, price, discount, historical-low flag), the
+ * tracked redirect link for the group and the image to attach (the creative
+ * when its hash matches the product's current data, so a stale price is
+ * never posted; product image otherwise). Formatting differs per platform:
+ * Telegram gets HTML, WhatsApp gets its *bold* / ~strike~ markup.
+ */
+
+import { computeCreativeHash } from "../creative/creativeHash";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Public site hosting the /go/ short links
+    SITE_URL: process.env.SITE_URL || "https://ihuprojectmanager.web.app",
+
+    // Titles longer than this are truncated (keeps captions well under
+    // Telegram's 1024-character photo caption limit)
+    MAX_TITLE_LENGTH: 120,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MessageFormat = "html" | "whatsapp";
+
+export interface PostableProduct {
+    id: string;
+    title: string;
+    price: number;
+    originalPrice?: number | null;
+    discount?: number;
+    imageUrl?: string;
+    creativeUrl?: string | null;
+    creativeHash?: string | null;
+    isHistoricalLow?: boolean;
+    rating?: number | null;
+    reviewCount?: number | null;
+    couponCode?: string | null;
+}
+
+export interface ComposedMessage {
+    text: string;
+    link: string;
+    imageUrl: string | null;
+}
+
+// ============================================================================
+// COMPOSER
+// ============================================================================
+
+function formatPrice(price: number): string {
+    return `R$ ${price.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Creative URL if the stored creative was rendered from the product's
+ * current data, null if it is missing or stale
+ */
+function currentCreativeUrl(product: PostableProduct): string | null {
+    if (!product.creativeUrl || !product.creativeHash) return null;
+    return product.creativeHash === computeCreativeHash(product) ? product.creativeUrl : null;
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Tracked short link (/go/:id, served by goRedirect); utm_source identifies
+ * the group in click stats
+ */
+export function buildTrackedLink(productId: string, groupId: string, siteUrl = CONFIG.SITE_URL): string {
+    const params = new URLSearchParams({ utm_source: groupId });
+    return `${siteUrl.replace(/\/$/, "")}/go/${encodeURIComponent(productId)}?${params.toString()}`;
+}
+
+export function composeMessage(
+    product: PostableProduct,
+    groupId: string,
+    format: MessageFormat,
+    siteUrl = CONFIG.SITE_URL
+): ComposedMessage {
+    const link = buildTrackedLink(product.id, groupId, siteUrl);
+    const title = truncate(product.title.trim(), CONFIG.MAX_TITLE_LENGTH);
+
+    const bold = (s: string) => (format === "html" ? `<b>${escapeHtml(s)}</b>` : `*${s}*`);
+    const strike = (s: string) => (format === "html" ? `<s>${s}</s>` : `~${s}~`);
+
+    const lines: string[] = [`🔥 ${bold(title)}`, ""];
+
+    const hasOriginal = !!product.originalPrice && product.originalPrice > product.price;
+    if (hasOriginal) {
+        lines.push(`De ${strike(formatPrice(product.originalPrice as number))}`);
+    }
+
+    const discount = product.discount && product.discount > 0 ? ` (-${Math.round(product.discount)}%)` : "";
+    lines.push(`💰 Por ${bold(formatPrice(product.price))}${discount}`);
+
+    if (product.isHistoricalLow) {
+        lines.push(`📉 ${bold("Menor preço histórico!")}`);
+    }
+
+    lines.push("", `👉 ${link}`);
+
+    return {
+        text: lines.join("\n"),
+        link,
+        imageUrl: currentCreativeUrl(product) || product.imageUrl || null,
+    };
+}
+
+export { CONFIG as MESSAGE_COMPOSER_CONFIG };
@@ -0,0 +1,366 @@
+/**
+ * Post Queue - Schedule and deliver product posts to groups
+ *
+ * groups/{groupId} describes a destination chat:
+ *   { name, platform: "telegram" | "whatsapp", chatId, active,
+ *     postsPerDay?, startHour?, endHour?, minScore?, categories? }
+ *
+ * enqueuePosts() picks the best recent products not yet sent to each group
+ * and spreads them over the group's posting window. processPostQueue()
+ * delivers the posts that are due. Queue entries live in
+ * postQueue/{groupId}_{productId}, so a product is queued at most once per
+ * group. Delivered products are marked with where and when they were posted:
+ *   posted: true, lastPostedAt, postedGroups: [groupId...],
+ *   postedTo: { [groupId]: Timestamp }
+ *
+ * A post is sent at most once: the entry is marked "sent" right after the
+ * transport accepts the message, and failures after that point are never
+ * retried.
+ */
+
+import * as admin from "firebase-admin";
+import { composeMessage, PostableProduct } from "./messageComposer";
+import { PostPlatform, PostTransport } from "./transports";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Only products fetched within this window are candidates
+    CANDIDATE_WINDOW_HOURS: 48,
+
+    // Group defaults (overridable per group document)
+    DEFAULT_POSTS_PER_DAY: 5,
+    DEFAULT_START_HOUR: 8,   // Local time (BRT)
+    DEFAULT_END_HOUR: 22,
+    DEFAULT_MIN_SCORE: 0,
+
+    // Brazil has no DST since 2019: BRT is always UTC-3
+    UTC_OFFSET_HOURS: -3,
+
+    // Maximum posts delivered per processing run
+    MAX_POSTS_PER_RUN: 20,
+
+    // Failed sends are retried with a delay, then marked failed
+    MAX_ATTEMPTS: 3,
+    RETRY_DELAY_MS: 10 * 60 * 1000,
+
+    // "sending" entries older than this were interrupted (timeout, crash)
+    STALE_CLAIM_MS: 15 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PostingGroup {
+    id: string;
+    name: string;
+    platform: PostPlatform;
+    chatId: string;
+    active: boolean;
+    postsPerDay: number;
+    startHour: number;
+    endHour: number;
+    minScore: number;
+    categories: string[] | null;
+}
+
+export type PostStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface EnqueueResult {
+    groupId: string;
+    queued: number;
+}
+
+export interface ProcessResult {
+    sent: number;
+    failed: number;
+    retried: number;
+    released: number;      // Interrupted sends put back in the queue
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+export function toPostingGroup(id: string, data: admin.firestore.DocumentData): PostingGroup {
+    return {
+        id,
+        name: data.name || id,
+        platform: data.platform,
+        chatId: String(data.chatId || ""),
+        active: data.active !== false,
+        postsPerDay: data.postsPerDay ?? CONFIG.DEFAULT_POSTS_PER_DAY,
+        startHour: data.startHour ?? CONFIG.DEFAULT_START_HOUR,
+        endHour: data.endHour ?? CONFIG.DEFAULT_END_HOUR,
+        minScore: data.minScore ?? CONFIG.DEFAULT_MIN_SCORE,
+        categories: Array.isArray(data.categories) && data.categories.length > 0 ? data.categories : null,
+    };
+}
+
+/**
+ * Spread `count` posts evenly over the remaining part of the group's local
+ * posting window. Outside the window, posts go to the next window.
+ */
+export function schedulePostTimes(count: number, group: PostingGroup, now = Date.now()): number[] {
+    if (count <= 0) return [];
+
+    const offsetMs = CONFIG.UTC_OFFSET_HOURS * HOUR_MS;
+    const localMidnight = Math.floor((now + offsetMs) / DAY_MS) * DAY_MS - offsetMs;
+
+    let windowStart = localMidnight + group.startHour * HOUR_MS;
+    let windowEnd = localMidnight + group.endHour * HOUR_MS;
+
+    if (now >= windowEnd) {
+        windowStart += DAY_MS;
+        windowEnd += DAY_MS;
+    }
+
+    const start = Math.max(now, windowStart);
+    const interval = (windowEnd - start) / count;
+
+    return Array.from({ length: count }, (_, i) => Math.round(start + i * interval));
+}
+
+function isCandidate(product: admin.firestore.DocumentData, group: PostingGroup): boolean {
+    if (product.mergedInto || product.hidden || !product.affiliateLink || !product.price) return false;
+    if (product.discountVerdict === "rejected") return false;
+    if ((product.dealScore || 0) < group.minScore) return false;
+    if (group.categories && !group.categories.includes(product.category)) return false;
+    return !product.postedTo?.[group.id];
+}
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+/**
+ * Queue today's posts for every active group
+ */
+export async function enqueuePosts(db: admin.firestore.Firestore, now = Date.now()): Promise<EnqueueResult[]> {
+    const since = admin.firestore.Timestamp.fromMillis(now - CONFIG.CANDIDATE_WINDOW_HOURS * HOUR_MS);
+
+    const [groupsSnap, productsSnap] = await Promise.all([
+        db.collection("groups").get(),
+        db.collection("products").where("fetchedAt", ">=", since).get(),
+    ]);
+
+    const products = productsSnap.docs
+        .map((doc) => ({ id: doc.id, data: doc.data() }))
+        .sort((a, b) => (b.data.dealScore || 0) - (a.data.dealScore || 0));
+
+    const results: EnqueueResult[] = [];
+
+    for (const groupDoc of groupsSnap.docs) {
+        const group = toPostingGroup(groupDoc.id, groupDoc.data());
+        if (!group.active || !group.chatId) continue;
+
+        // Posts already waiting for this group count against today's quota
+        const pendingSnap = await db.collection("postQueue")
+            .where("groupId", "==", group.id)
+            .where("status", "==", "pending")
+            .get();
+        const slots = group.postsPerDay - pendingSnap.size;
+
+        if (slots <= 0) {
+            results.push({ groupId: group.id, queued: 0 });
+            continue;
+        }
+
+        const candidates = products.filter((p) => isCandidate(p.data, group));
+        const refs = candidates.map((p) => db.collection("postQueue").doc(`${group.id}_${p.id}`));
+        const existing = refs.length > 0 ? await db.getAll(...refs) : [];
+
+        const selected = candidates
+            .filter((_, i) => !existing[i].exists)
+            .slice(0, slots);
+
+        const times = schedulePostTimes(selected.length, group, now);
+        const batch = db.batch();
+
+        selected.forEach((product, i) => {
+            batch.set(db.collection("postQueue").doc(`${group.id}_${product.id}`), {
+                groupId: group.id,
+                productId: product.id,
+                platform: group.platform,
+                status: "pending" as PostStatus,
+                scheduledFor: admin.firestore.Timestamp.fromMillis(times[i]),
+                attempts: 0,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        });
+
+        if (selected.length > 0) await batch.commit();
+
+        console.log(`Queued ${selected.length} posts for group ${group.name} (${group.platform})`);
+        results.push({ groupId: group.id, queued: selected.length });
+    }
+
+    return results;
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Atomically move a pending entry to "sending" so overlapping runs never
+ * deliver the same post twice. Returns false if another run claimed it.
+ */
+async function claimEntry(
+    db: admin.firestore.Firestore,
+    ref: admin.firestore.DocumentReference,
+    now: number
+): Promise<boolean> {
+    return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        if (snap.get("status") !== "pending") return false;
+        tx.update(ref, {
+            status: "sending",
+            attempts: admin.firestore.FieldValue.increment(1),
+            claimedAt: admin.firestore.Timestamp.fromMillis(now),
+            sendStartedAt: null,
+        });
+        return true;
+    });
+}
+
+/**
+ * Recover "sending" entries left behind by a crash or timeout. Entries
+ * that never reached the transport go back to the queue (or fail once out
+ * of attempts); entries whose send had started may have been delivered,
+ * so they are failed instead of risking a duplicate post.
+ */
+async function recoverStaleClaims(db: admin.firestore.Firestore, now: number, result: ProcessResult): Promise<void> {
+    const staleSnap = await db.collection("postQueue")
+        .where("status", "==", "sending")
+        .where("claimedAt", "<=", admin.firestore.Timestamp.fromMillis(now - CONFIG.STALE_CLAIM_MS))
+        .get();
+
+    for (const entry of staleSnap.docs) {
+        const attempts: number = entry.get("attempts") || 0;
+
+        if (entry.get("sendStartedAt")) {
+            await entry.ref.update({
+                status: "failed" as PostStatus,
+                lastError: "Delivery interrupted after the send started (not retried, it may have been posted)",
+            });
+            result.failed++;
+        } else if (attempts >= CONFIG.MAX_ATTEMPTS) {
+            await entry.ref.update({ status: "failed" as PostStatus, lastError: "Delivery interrupted" });
+            result.failed++;
+        } else {
+            await entry.ref.update({
+                status: "pending" as PostStatus,
+                lastError: "Delivery interrupted",
+                scheduledFor: admin.firestore.Timestamp.fromMillis(now),
+            });
+            result.released++;
+        }
+        console.error(`✗ Recovered interrupted post ${entry.id} (attempt ${attempts})`);
+    }
+}
+
+/**
+ * Deliver the posts whose scheduled time has passed
+ */
+export async function processPostQueue(
+    db: admin.firestore.Firestore,
+    transports: Partial<Record<PostPlatform, PostTransport>>,
+    now = Date.now()
+): Promise<ProcessResult> {
+    const result: ProcessResult = { sent: 0, failed: 0, retried: 0, released: 0 };
+
+    await recoverStaleClaims(db, now, result);
+
+    const dueSnap = await db.collection("postQueue")
+        .where("status", "==", "pending")
+        .where("scheduledFor", "<=", admin.firestore.Timestamp.fromMillis(now))
+        .orderBy("scheduledFor", "asc")
+        .limit(CONFIG.MAX_POSTS_PER_RUN)
+        .get();
+
+    for (const entry of dueSnap.docs) {
+        const { groupId, productId } = entry.data();
+
+        if (!(await claimEntry(db, entry.ref, now))) continue;
+        const attempts = (entry.get("attempts") || 0) + 1;
+
+        // Set once the transport accepted the message: from then on nothing
+        // may put the entry back in the queue
+        let delivery: { messageId: string; sentAt: admin.firestore.Timestamp; postedProductId: string } | null = null;
+
+        try {
+            const groupDoc = await db.collection("groups").doc(groupId).get();
+            if (!groupDoc.exists) throw Object.assign(new Error(`Group ${groupId} not found`), { retryable: false });
+            const group = toPostingGroup(groupDoc.id, groupDoc.data() || {});
+
+            const transport = transports[group.platform];
+            if (!transport) {
+                throw Object.assign(new Error(`No transport configured for ${group.platform}`), { retryable: false });
+            }
+
+            // Follow merges done by the ASIN backfill
+            let productDoc = await db.collection("products").doc(productId).get();
+            if (productDoc.get("mergedInto")) {
+                productDoc = await db.collection("products").doc(productDoc.get("mergedInto")).get();
+            }
+            if (!productDoc.exists) throw Object.assign(new Error(`Product ${productId} not found`), { retryable: false });
+
+            const product = { id: productDoc.id, ...productDoc.data() } as PostableProduct;
+            const message = composeMessage(product, group.id, transport.format);
+
+            await entry.ref.update({ sendStartedAt: admin.firestore.FieldValue.serverTimestamp() });
+            const { messageId } = await transport.send(group.chatId, message);
+            delivery = { messageId, sentAt: admin.firestore.Timestamp.now(), postedProductId: productDoc.id };
+
+            // Record the delivery before anything else can fail
+            await entry.ref.update({ status: "sent" as PostStatus, ...delivery, lastError: null });
+
+            await productDoc.ref.update(
+                "posted", true,
+                "lastPostedAt", delivery.sentAt,
+                "postedGroups", admin.firestore.FieldValue.arrayUnion(group.id),
+                new admin.firestore.FieldPath("postedTo", group.id), delivery.sentAt
+            );
+
+            result.sent++;
+            console.log(`✓ Posted ${productDoc.id} to ${group.name} (${group.platform})`);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+
+            // Already posted: keep it sent, never retry
+            if (delivery) {
+                await entry.ref.update({ status: "sent" as PostStatus, ...delivery, lastError: `Posted, but: ${errorMsg}` })
+                    .catch((updateError) => console.error(`Could not record delivery of ${entry.id}:`, updateError));
+                result.sent++;
+                console.error(`✗ Posted ${productId} to ${groupId}, but recording it failed: ${errorMsg}`);
+                continue;
+            }
+
+            const retryable = (error as { retryable?: boolean }).retryable !== false;
+            const giveUp = !retryable || attempts >= CONFIG.MAX_ATTEMPTS;
+
+            await entry.ref.update({
+                status: (giveUp ? "failed" : "pending") as PostStatus,
+                lastError: errorMsg,
+                ...(giveUp ? {} : {
+                    scheduledFor: admin.firestore.Timestamp.fromMillis(now + CONFIG.RETRY_DELAY_MS * attempts),
+                }),
+            });
+
+            if (giveUp) result.failed++;
+            else result.retried++;
+            console.error(`✗ Failed to post ${productId} to ${groupId} (attempt ${attempts}): ${errorMsg}`);
+        }
+    }
+
+    return result;
+}
+
+export { CONFIG as POST_QUEUE_CONFIG };
@@ -0,0 +1,190 @@
+/**
+ * Post Transports - Deliver composed messages to group chats
+ *
+ * Each platform (Telegram Bot API, WhatsApp Cloud API) is a transport with
+ * a single send() method. API base URLs are configurable so the transports
+ * can be pointed at local mock servers during development:
+ * - TELEGRAM_API_BASE (default https://api.telegram.org)
+ * - WHATSAPP_API_BASE (default https://graph.facebook.com)
+ */
+
+import fetch from "node-fetch";
+import { ComposedMessage, MessageFormat } from "./messageComposer";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    TELEGRAM_API_BASE: "https://api.telegram.org",
+    WHATSAPP_API_BASE: "https://graph.facebook.com",
+    WHATSAPP_API_VERSION: "v19.0",
+
+    // Request timeout
+    TIMEOUT_MS: 15000,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PostPlatform = "telegram" | "whatsapp";
+
+export interface SendResult {
+    messageId: string;
+}
+
+export interface PostTransport {
+    platform: PostPlatform;
+    format: MessageFormat;
+
+    /** Send a message to a chat; throws on failure */
+    send(chatId: string, message: ComposedMessage): Promise<SendResult>;
+}
+
+export interface TelegramTransportOptions {
+    botToken: string;
+    apiBase?: string;
+}
+
+export interface WhatsAppTransportOptions {
+    accessToken: string;
+    phoneNumberId: string;
+    apiBase?: string;
+    apiVersion?: string;
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+interface TelegramResponse {
+    ok?: boolean;
+    description?: string;
+    result?: { message_id?: number };
+}
+
+interface WhatsAppResponse {
+    messages?: { id: string }[];
+    error?: { message?: string };
+}
+
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<{
+    status: number;
+    data: T;
+}> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CONFIG.TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+            signal: controller.signal as AbortSignal,
+        });
+        const data = await response.json().catch(() => ({})) as T;
+        return { status: response.status, data };
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+// ============================================================================
+// TELEGRAM
+// ============================================================================
+
+export function createTelegramTransport(options: TelegramTransportOptions): PostTransport {
+    const baseUrl = `${(options.apiBase || CONFIG.TELEGRAM_API_BASE).replace(/\/$/, "")}/bot${options.botToken}`;
+
+    return {
+        platform: "telegram",
+        format: "html",
+
+        async send(chatId: string, message: ComposedMessage): Promise<SendResult> {
+            const { status, data } = message.imageUrl
+                ? await postJson<TelegramResponse>(`${baseUrl}/sendPhoto`, {
+                    chat_id: chatId,
+                    photo: message.imageUrl,
+                    caption: message.text,
+                    parse_mode: "HTML",
+                })
+                : await postJson<TelegramResponse>(`${baseUrl}/sendMessage`, {
+                    chat_id: chatId,
+                    text: message.text,
+                    parse_mode: "HTML",
+                });
+
+            if (!data.ok) {
+                throw new Error(`Telegram send failed: ${data.description || `HTTP ${status}`}`);
+            }
+
+            return { messageId: String(data.result?.message_id) };
+        },
+    };
+}
+
+// ============================================================================
+// WHATSAPP
+// ============================================================================
+
+export function createWhatsAppTransport(options: WhatsAppTransportOptions): PostTransport {
+    const base = (options.apiBase || CONFIG.WHATSAPP_API_BASE).replace(/\/$/, "");
+    const url = `${base}/${options.apiVersion || CONFIG.WHATSAPP_API_VERSION}/${options.phoneNumberId}/messages`;
+    const headers = { Authorization: `Bearer ${options.accessToken}` };
+
+    return {
+        platform: "whatsapp",
+        format: "whatsapp",
+
+        async send(chatId: string, message: ComposedMessage): Promise<SendResult> {
+            const body = message.imageUrl
+                ? { type: "image", image: { link: message.imageUrl, caption: message.text } }
+                : { type: "text", text: { body: message.text, preview_url: true } };
+
+            const { status, data } = await postJson<WhatsAppResponse>(url, {
+                messaging_product: "whatsapp",
+                to: chatId,
+                ...body,
+            }, headers);
+
+            const messageId = data.messages?.[0]?.id;
+            if (status >= 400 || !messageId) {
+                throw new Error(`WhatsApp send failed: ${data.error?.message || `HTTP ${status}`}`);
+            }
+
+            return { messageId };
+        },
+    };
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Transports configured through environment variables. Platforms without
+ * credentials are left out.
+ */
+export function createTransportsFromEnv(): Partial<Record<PostPlatform, PostTransport>> {
+    const transports: Partial<Record<PostPlatform, PostTransport>> = {};
+
+    if (process.env.TELEGRAM_BOT_TOKEN) {
+        transports.telegram = createTelegramTransport({
+            botToken: process.env.TELEGRAM_BOT_TOKEN,
+            apiBase: process.env.TELEGRAM_API_BASE || undefined,
+        });
+    }
+
+    if (process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID) {
+        transports.whatsapp = createWhatsAppTransport({
+            accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+            phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+            apiBase: process.env.WHATSAPP_API_BASE || undefined,
+        });
+    }
+
+    return transports;
+}
+
+export { CONFIG as TRANSPORT_CONFIG };
@@ -0,0 +1,154 @@
+/**
+ * Price History - Track every observed price per product
+ *
+ * Each observation is stored in products/{id}/priceHistory with its source
+ * and timestamp. Summary fields are kept on the product document so the
+ * feed and creatives can flag "menor preço histórico" without reading the
+ * subcollection:
+ * - lowestPrice / highestPrice: all-time observed bounds
+ * - lowest30d / highest30d: bounds over the last 30 days
+ * - isHistoricalLow: current price matches the all-time low
+ */
+
+import * as admin from "firebase-admin";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Window for the rolling lowest/highest fields
+    WINDOW_DAYS: 30,
+
+    // Prior observations required before we call something a historical low
+    MIN_OBSERVATIONS_FOR_LOW: 3,
+
+    // Prices within this fraction of the previous low still count as the low
+    LOW_TOLERANCE: 0.01,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PriceObservation {
+    price: number;
+    originalPrice?: number | null;
+    discount?: number;
+    source: string;
+}
+
+export interface PricePoint {
+    price: number;
+    observedAt: number;  // ms since epoch
+}
+
+export interface PriceStats {
+    lowestPrice: number;
+    highestPrice: number;
+    lowest30d: number;
+    highest30d: number;
+    priceObservations: number;
+    previousPrice: number | null;
+    isHistoricalLow: boolean;
+}
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+/**
+ * Compute summary fields from the recent history window, the product's
+ * previous summary and the price being recorded now
+ */
+export function computePriceStats(
+    recent: PricePoint[],
+    previous: Partial<PriceStats> & { price?: number },
+    current: PricePoint
+): PriceStats {
+    const windowStart = current.observedAt - CONFIG.WINDOW_DAYS * DAY_MS;
+    const windowPrices = recent
+        .filter((p) => p.observedAt >= windowStart && p.price > 0)
+        .map((p) => p.price)
+        .concat(current.price);
+
+    const priorObservations = previous.priceObservations || 0;
+    const priorLowest = previous.lowestPrice ?? current.price;
+    const priorHighest = previous.highestPrice ?? current.price;
+
+    const lowestPrice = Math.min(priorLowest, current.price);
+    const highestPrice = Math.max(priorHighest, current.price);
+
+    const isHistoricalLow =
+        priorObservations >= CONFIG.MIN_OBSERVATIONS_FOR_LOW &&
+        current.price <= priorLowest * (1 + CONFIG.LOW_TOLERANCE) &&
+        current.price < highestPrice;
+
+    return {
+        lowestPrice,
+        highestPrice,
+        lowest30d: Math.min(...windowPrices),
+        highest30d: Math.max(...windowPrices),
+        priceObservations: priorObservations + 1,
+        previousPrice: previous.price ?? null,
+        isHistoricalLow,
+    };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Load observations for a product within the last `days` days
+ */
+export async function getRecentPriceHistory(
+    productRef: admin.firestore.DocumentReference,
+    days = CONFIG.WINDOW_DAYS,
+    now = Date.now()
+): Promise<PricePoint[]> {
+    const since = admin.firestore.Timestamp.fromMillis(now - days * DAY_MS);
+    const snapshot = await productRef.collection("priceHistory")
+        .where("observedAt", ">=", since)
+        .orderBy("observedAt", "asc")
+        .get();
+
+    return snapshot.docs.map((doc) => ({
+        price: doc.get("price"),
+        observedAt: (doc.get("observedAt") as admin.firestore.Timestamp).toMillis(),
+    }));
+}
+
+/**
+ * Queue a price observation on the batch and return the summary fields to
+ * merge into the product write. Observations without a price are ignored.
+ * Pass `recent` when the history was already loaded by the caller.
+ */
+export async function recordPriceObservation(
+    batch: admin.firestore.WriteBatch,
+    productRef: admin.firestore.DocumentReference,
+    existing: admin.firestore.DocumentData | undefined,
+    observation: PriceObservation,
+    recent?: PricePoint[]
+): Promise<Partial<PriceStats>> {
+    if (!observation.price || observation.price <= 0) return {};
+
+    const now = Date.now();
+    if (!recent) {
+        recent = existing ? await getRecentPriceHistory(productRef, CONFIG.WINDOW_DAYS, now) : [];
+    }
+
+    batch.set(productRef.collection("priceHistory").doc(), {
+        price: observation.price,
+        originalPrice: observation.originalPrice || null,
+        discount: observation.discount ?? null,
+        source: observation.source,
+        observedAt: admin.firestore.Timestamp.fromMillis(now),
+    });
+
+    return computePriceStats(recent, existing || {}, { price: observation.price, observedAt: now });
+}
+
+export { CONFIG as PRICE_HISTORY_CONFIG };
@@ -0,0 +1,140 @@
+/**
+ * Rate Limit - Fixed-window request limits for public endpoints
+ *
+ * Counters live in rateLimits/{sha256(bucket:key)} as
+ * { windowStart, count, expiresAt } and are updated in a transaction, so the
+ * limit holds across function instances. A Firestore TTL policy on
+ * expiresAt (fieldOverrides in firestore.indexes.json) removes stale windows.
+ *
+ * Firestore errors fail open: a broken limiter must not take the public
+ * endpoints down with it.
+ */
+
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import type { Response } from "express";
+import { Request } from "firebase-functions/v2/https";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Proxies between the visitor and Google's front end that append to
+    // X-Forwarded-For: the public endpoints are served through Firebase
+    // Hosting rewrites (firebase.json), whose CDN adds one hop
+    TRUSTED_PROXY_HOPS: 1,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateLimitRule {
+    limit: number;          // Requests allowed per window
+    windowSeconds: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterSeconds: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Visitor IP from X-Forwarded-For. Entries are appended right to left by
+ * Google's front end and the trusted proxies (Hosting's CDN), so the
+ * visitor sits TRUSTED_PROXY_HOPS entries from the right; anything further
+ * left comes from the request itself and can be forged. Shorter chains
+ * (the function URL called directly) use their first entry.
+ */
+export function clientIp(req: Pick<Request, "headers" | "ip">, trustedProxyHops = CONFIG.TRUSTED_PROXY_HOPS): string {
+    const forwarded = req.headers["x-forwarded-for"]?.toString().split(",").map((hop) => hop.trim()).filter(Boolean);
+    if (!forwarded?.length) return req.ip || "unknown";
+    return forwarded[Math.max(0, forwarded.length - 1 - trustedProxyHops)];
+}
+
+/**
+ * SHA-256 of the client IP (raw IPs are never stored)
+ */
+export function hashClientIp(req: Pick<Request, "headers" | "ip">): string {
+    return crypto.createHash("sha256").update(clientIp(req)).digest("hex");
+}
+
+// ============================================================================
+// LIMITER
+// ============================================================================
+
+/**
+ * Count a request against `bucket:key` and report whether it is allowed
+ */
+export async function consumeRateLimit(
+    db: admin.firestore.Firestore,
+    bucket: string,
+    key: string,
+    rule: RateLimitRule,
+    now = Date.now()
+): Promise<RateLimitResult> {
+    const windowMs = rule.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const retryAfterSeconds = Math.ceil((windowStart + windowMs - now) / 1000);
+
+    const docId = crypto.createHash("sha256").update(`${bucket}:${key}`).digest("hex");
+    const ref = db.collection("rateLimits").doc(docId);
+
+    try {
+        return await db.runTransaction(async (tx) => {
+            const snap = await tx.get(ref);
+            const sameWindow = snap.exists && snap.get("windowStart") === windowStart;
+            const count = (sameWindow ? snap.get("count") || 0 : 0) + 1;
+
+            // Past the limit: stop writing, the window just has to run out
+            if (count > rule.limit) {
+                return { allowed: false, remaining: 0, retryAfterSeconds };
+            }
+
+            tx.set(ref, {
+                bucket,
+                windowStart,
+                count,
+                expiresAt: admin.firestore.Timestamp.fromMillis(windowStart + 2 * windowMs),
+            });
+
+            return { allowed: true, remaining: rule.limit - count, retryAfterSeconds };
+        });
+    } catch (error) {
+        console.error(`Rate limiter failed for ${bucket} (allowing request):`, error);
+        return { allowed: true, remaining: rule.limit, retryAfterSeconds: 0 };
+    }
+}
+
+/**
+ * Limit a request by client IP. Sends 429 and returns false when the
+ * limit is exceeded.
+ */
+export async function rateLimitByIp(
+    db: admin.firestore.Firestore,
+    req: Request,
+    res: Response,
+    bucket: string,
+    rule: RateLimitRule
+): Promise<boolean> {
+    const result = await consumeRateLimit(db, bucket, hashClientIp(req), rule);
+
+    res.set("X-RateLimit-Limit", String(rule.limit));
+    res.set("X-RateLimit-Remaining", String(result.remaining));
+
+    if (!result.allowed) {
+        res.set("Retry-After", String(result.retryAfterSeconds));
+        res.status(429).json({ error: "Too many requests" });
+        return false;
+    }
+
+    return true;
+}
+
+export { CONFIG as RATE_LIMIT_CONFIG };
@@ -0,0 +1,87 @@
+/**
+ * Render Creative - Render product creatives to disk, without Firebase
+ *
+ * USAGE:
+ *   npm run render-creative -- --product golden/fixtures.json
+ *   npm run render-creative -- --product export.json --template all --out tmp/creatives
+ *
+ * --product    JSON file: one product, an array, an id-keyed object or a
+ *              { "products": ... } export (see creative/productFile.ts)
+ * --template   feed | story | banner | all, or a comma-separated list
+ *              (default: feed)
+ * --out        output directory (default: tmp/creatives)
+ * --png        write lossless PNG instead of JPEG
+ * --animated   write an animated WebP clip instead (creative/animation.ts)
+ * --gif        write an animated GIF clip instead
+ * --duration   clip length in seconds, 5-8 (default: 6)
+ *
+ * Files are written as <out>/<asin>-<template>.<jpg|png|webp|gif>. Product
+ * images can be URLs or local paths (allowLocalImages), so fixtures render
+ * offline.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AnimationFormat, renderAnimatedCreative } from "./creative/animation";
+import { readProductsFile } from "./creative/productFile";
+import { CreativeProduct, renderCreative } from "./creative/renderer";
+import { getTemplate, isTemplateId, TEMPLATES, TemplateId } from "./creative/templates";
+
+function argValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function parseTemplates(value: string | undefined): TemplateId[] | null {
+    if (!value) return ["feed"];
+    if (value === "all") return Object.keys(TEMPLATES) as TemplateId[];
+
+    const ids = value.split(",").map((id) => id.trim());
+    return ids.every(isTemplateId) ? ids : null;
+}
+
+async function main(): Promise<void> {
+    const productFile = argValue("--product");
+    const templates = parseTemplates(argValue("--template"));
+    const outDir = argValue("--out") || path.join("tmp", "creatives");
+    const format = process.argv.includes("--png") ? "png" : "jpeg";
+    const animation: AnimationFormat | null = process.argv.includes("--gif")
+        ? "gif"
+        : process.argv.includes("--animated") ? "webp" : null;
+    const durationMs = argValue("--duration") ? Number(argValue("--duration")) * 1000 : undefined;
+
+    if (!productFile || !templates || (durationMs !== undefined && !(durationMs > 0))) {
+        console.error(
+            `Usage: renderCreative --product <file.json> [--template ${Object.keys(TEMPLATES).join("|")}|all] ` +
+            "[--out dir] [--png | --animated | --gif] [--duration seconds]"
+        );
+        process.exit(1);
+    }
+
+    const render = (product: CreativeProduct, templateId: TemplateId) => animation
+        ? renderAnimatedCreative(product, getTemplate(templateId), { format: animation, durationMs, allowLocalImages: true })
+        : renderCreative(product, getTemplate(templateId), { format, allowLocalImages: true });
+    const extension = animation || (format === "png" ? "png" : "jpg");
+
+    const products = readProductsFile(productFile);
+    fs.mkdirSync(outDir, { recursive: true });
+
+    for (const product of products) {
+        for (const templateId of templates) {
+            const image = await render(product, templateId);
+            const outPath = path.join(outDir, `${product.asin}-${templateId}.${extension}`);
+
+            fs.writeFileSync(outPath, image);
+            console.log(`✓ ${outPath} (${(image.length / 1024).toFixed(1)} KB)`);
+        }
+    }
+
+    console.log(`Rendered ${products.length * templates.length} creatives to ${outDir}`);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("Render failed:", error);
+        process.exit(1);
+    });
+}
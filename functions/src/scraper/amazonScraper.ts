@@ -11,6 +11,14 @@
 
 import * as cheerio from "cheerio";
 import fetch from "node-fetch";
+import {
+    DEFAULT_SCORING_SETTINGS,
+    QualityThresholds,
+    ScoreBreakdown,
+    ScoringSettings,
+    scoreDeal,
+} from "../dealScoring";
+import { Notifier, createNotifierFromEnv } from "../notifier";
 
 // ============================================================================
 // CONFIGURATION - Safety & Rate Limiting
@@ -34,11 +42,8 @@ const CONFIG = {
     // Maximum products to process per source
     MAX_PRODUCTS_PER_SOURCE: 25,
 
-    // Quality filter thresholds
-    MIN_PRICE: 25,
-    MAX_PRICE: 2500,
-    MIN_RATING: 3.0,
-    MIN_REVIEWS: 10,
+    // Quality thresholds and score weights live in settings/scoring
+    // (amazon profile) - see dealScoring.ts
 };
 
 // ============================================================================
@@ -74,14 +79,6 @@ const CATEGORY_ALIASES: Record<string, string[]> = {
     toys: ["brinquedo", "brinquedos", "jogos", "infantil", "criança", "lego", "boneca"],
 };
 
-const CATEGORY_WEIGHTS: Record<string, number> = {
-    electronics: 100,
-    home: 80,
-    sports: 75,
-    toys: 70,
-    other: 40,
-};
-
 // ============================================================================
 // URLS TO SCRAPE
 // ============================================================================
@@ -130,10 +127,13 @@ export interface ScrapedProduct {
     category: string;
     normalizedCategory: string;
     dealScore: number;
-    source: "deals" | "bestsellers";
+    scoreBreakdown?: ScoreBreakdown;
+    source: ProductSourceType;
     scrapedAt: number;
 }
 
+export type ProductSourceType = "deals" | "bestsellers" | "paapi";
+
 interface ScrapeStats {
     requestCount: number;
     productsFound: number;
@@ -302,36 +302,24 @@ export function normalizeCategory(amazonCategory: string): string {
 // DEAL SCORE CALCULATION
 // ============================================================================
 
-export function calculateDealScore(product: Partial<ScrapedProduct>): number {
-    const discount = product.discount || 0;
-    const rating = product.rating || 0;
-    const reviews = product.reviewCount || 0;
-    const category = product.normalizedCategory || "other";
-
-    // Discount score (0-100): 40%+ discount = max score
-    const discountScore = Math.min((discount / 40) * 100, 100);
-
-    // Rating score (0-100): 3.0 = 0, 5.0 = 100
-    const ratingScore = Math.max(((rating - 3) / 2) * 100, 0);
-
-    // Review score (0-100): log scale, 5000+ = max
-    const reviewScore = Math.min((Math.log10(Math.max(reviews, 1)) / Math.log10(5000)) * 100, 100);
-
-    // Category score (0-100)
-    const categoryScore = CATEGORY_WEIGHTS[category] || CATEGORY_WEIGHTS.other;
-
-    // Source bonus
-    const sourceBonus = product.source === "deals" ? 10 : 0;
-
-    // Weighted average
-    const score =
-        discountScore * 0.30 +
-        ratingScore * 0.25 +
-        reviewScore * 0.20 +
-        categoryScore * 0.15 +
-        sourceBonus;
+export function calculateDealScore(
+    product: Partial<ScrapedProduct>,
+    scoring: ScoringSettings = DEFAULT_SCORING_SETTINGS
+): number {
+    return scoreDeal(product, scoring.amazon, scoring.version, scoring.ctr).total;
+}
 
-    return Math.round(Math.min(score, 100));
+/**
+ * Score a product in place, keeping the per-signal breakdown
+ */
+export function applyDealScore(
+    product: ScrapedProduct,
+    scoring: ScoringSettings = DEFAULT_SCORING_SETTINGS
+): ScrapedProduct {
+    const breakdown = scoreDeal(product, scoring.amazon, scoring.version, scoring.ctr);
+    product.dealScore = breakdown.total;
+    product.scoreBreakdown = breakdown;
+    return product;
 }
 
 // ============================================================================
@@ -341,7 +329,8 @@ export function calculateDealScore(product: Partial<ScrapedProduct>): number {
 function scrapeProductsFromHTML(
     html: string,
     category: string,
-    source: "deals" | "bestsellers"
+    source: "deals" | "bestsellers",
+    scoring: ScoringSettings
 ): ScrapedProduct[] {
     const $ = cheerio.load(html);
     const products: ScrapedProduct[] = [];
@@ -493,7 +482,7 @@ function scrapeProductsFromHTML(
                     scrapedAt: now,
                 };
 
-                product.dealScore = calculateDealScore(product);
+                applyDealScore(product, scoring);
                 products.push(product);
             } catch (err) {
                 // Silently skip malformed items
@@ -512,19 +501,25 @@ function scrapeProductsFromHTML(
 // QUALITY FILTERING
 // ============================================================================
 
-export function filterQualityProducts(products: ScrapedProduct[]): ScrapedProduct[] {
+export function filterQualityProducts(
+    products: ScrapedProduct[],
+    thresholds: QualityThresholds = DEFAULT_SCORING_SETTINGS.amazon.thresholds
+): ScrapedProduct[] {
     return products.filter((p) => {
         // Basic validity checks
         if (!p.asin || p.asin.length !== 10) return false;
         if (!p.title || p.title.length < 10) return false;
 
         // Price range filter
-        if (p.price < CONFIG.MIN_PRICE || p.price > CONFIG.MAX_PRICE) return false;
+        if (p.price < thresholds.minPrice || p.price > thresholds.maxPrice) return false;
 
         // Quality filters (relaxed to allow more products)
         // Only apply if we have the data
-        if (p.rating > 0 && p.rating < CONFIG.MIN_RATING) return false;
-        if (p.reviewCount > 0 && p.reviewCount < CONFIG.MIN_REVIEWS) return false;
+        if (p.rating > 0 && p.rating < thresholds.minRating) return false;
+        if (p.reviewCount > 0 && p.reviewCount < thresholds.minReviews) return false;
+
+        // Only enforced when configured (the amazon profile defaults to 0)
+        if (p.discount < thresholds.minDiscount) return false;
 
         return true;
     });
@@ -548,7 +543,11 @@ export function deduplicateProducts(products: ScrapedProduct[]): ScrapedProduct[
 // MAIN DISCOVERY FUNCTION
 // ============================================================================
 
-export async function discoverProducts(limit = 20): Promise<ScrapedProduct[]> {
+export async function discoverProducts(
+    limit = 20,
+    scoring: ScoringSettings = DEFAULT_SCORING_SETTINGS,
+    notifier: Notifier = createNotifierFromEnv()
+): Promise<ScrapedProduct[]> {
     console.log("=".repeat(60));
     console.log("Starting product discovery...");
     console.log(`Config: max ${CONFIG.MAX_REQUESTS_PER_SESSION} requests, ${CONFIG.DELAY_MIN_MS / 1000}-${CONFIG.DELAY_MAX_MS / 1000}s delays`);
@@ -575,7 +574,7 @@ export async function discoverProducts(limit = 20): Promise<ScrapedProduct[]> {
         const html = await fetchWithRetry(source.url, stats);
 
         if (html) {
-            const products = scrapeProductsFromHTML(html, source.category, source.type);
+            const products = scrapeProductsFromHTML(html, source.category, source.type, scoring);
             console.log(`Found ${products.length} products from ${source.category} (${source.type})`);
             allProducts = allProducts.concat(products);
             stats.productsFound += products.length;
@@ -597,7 +596,7 @@ export async function discoverProducts(limit = 20): Promise<ScrapedProduct[]> {
     console.log(`Deduplicated: ${beforeDedup} → ${allProducts.length}`);
 
     const beforeFilter = allProducts.length;
-    allProducts = filterQualityProducts(allProducts);
+    allProducts = filterQualityProducts(allProducts, scoring.amazon.thresholds);
     console.log(`Quality filtered: ${beforeFilter} → ${allProducts.length}`);
 
     // Sort by deal score and take top N
@@ -619,6 +618,10 @@ export async function discoverProducts(limit = 20): Promise<ScrapedProduct[]> {
     }
     console.log("=".repeat(60));
 
+    if (stats.errors.length > 0) {
+        await notifier.notifyFailure("Amazon scraper", stats.errors);
+    }
+
     return topProducts;
 }
 
@@ -0,0 +1,369 @@
+/**
+ * ASIN Enrichment - Resolve ASINs for community deals that lack one
+ *
+ * Community deals often link to amzn.to short links, tracking redirects or
+ * only to the deal page itself. This module:
+ * - Follows short links and redirect chains to the final Amazon URL
+ * - Opens the Pelando/Promobit deal page to find the Amazon link
+ * - Backfills asin/affiliateLink on Firestore products, merging them into
+ *   the ASIN-keyed document when one already exists
+ *
+ * All HTTP goes through an injectable HttpClient so the resolver can be
+ * exercised against canned responses.
+ *
+ * Lookups run inside the fetch functions' timeout: callers pass a shared
+ * deadline (ms since epoch) and lookups stop there, leaving the remaining
+ * products to the next backfill. A request in flight may finish up to
+ * TIMEOUT_MS past it.
+ */
+
+import * as admin from "firebase-admin";
+import * as cheerio from "cheerio";
+import fetch from "node-fetch";
+import { CommunityDeal } from "./dealSource";
+import { extractAsin, isAmazonUrl } from "./dealParsing";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Maximum redirects followed per link
+    MAX_REDIRECTS: 6,
+
+    // Maximum deals/products resolved per run
+    MAX_LOOKUPS: 15,
+
+    // Delay between lookups (ms)
+    LOOKUP_DELAY_MS: 1500,
+
+    // Request timeout
+    TIMEOUT_MS: 10000,
+
+    // Give up on a product after this many failed lookups
+    MAX_LOOKUP_ATTEMPTS: 3,
+};
+
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36";
+
+// ============================================================================
+// HTTP CLIENT
+// ============================================================================
+
+export interface HttpResponse {
+    status: number;
+    location: string | null;  // Location header for 3xx responses
+    text(): Promise<string>;
+}
+
+export interface HttpClient {
+    /** GET without following redirects */
+    get(url: string): Promise<HttpResponse>;
+}
+
+export const defaultHttpClient: HttpClient = {
+    async get(url: string): Promise<HttpResponse> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), CONFIG.TIMEOUT_MS);
+
+        try {
+            const response = await fetch(url, {
+                redirect: "manual",
+                headers: {
+                    "User-Agent": USER_AGENT,
+                    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+                    "Accept-Language": "pt-BR,pt;q=0.9,en;q=0.8",
+                },
+                signal: controller.signal as AbortSignal,
+            });
+            const body = await response.text();
+
+            return {
+                status: response.status,
+                location: response.headers.get("location"),
+                text: async () => body,
+            };
+        } finally {
+            clearTimeout(timeout);
+        }
+    },
+};
+
+// ============================================================================
+// RESOLVERS
+// ============================================================================
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Follow a redirect chain until an ASIN shows up in the URL.
+ * Returns the ASIN and the Amazon URL it was found in.
+ */
+export async function resolveShortLink(
+    url: string,
+    http: HttpClient = defaultHttpClient,
+    deadline = Infinity
+): Promise<{ asin: string; url: string } | null> {
+    let current = url;
+
+    for (let hop = 0; hop <= CONFIG.MAX_REDIRECTS; hop++) {
+        const asin = extractAsin(current);
+        if (asin) return { asin, url: current };
+        if (Date.now() >= deadline) return null;
+
+        const response = await http.get(current);
+        if (response.status < 300 || response.status >= 400 || !response.location) {
+            // Some trackers redirect with a meta refresh or JS instead of 3xx
+            if (response.status === 200) {
+                const html = await response.text();
+                const target = findAmazonLinkInHtml(html, current);
+                if (target && target !== current) {
+                    current = target;
+                    continue;
+                }
+            }
+            return null;
+        }
+
+        current = new URL(response.location, current).toString();
+    }
+
+    console.warn(`Too many redirects resolving ${url}`);
+    return null;
+}
+
+/**
+ * GET a page, following redirects, and return its final URL and HTML
+ */
+async function fetchPage(url: string, http: HttpClient, deadline: number): Promise<{ url: string; html: string } | null> {
+    let current = url;
+
+    for (let hop = 0; hop <= CONFIG.MAX_REDIRECTS; hop++) {
+        if (Date.now() >= deadline) return null;
+        const response = await http.get(current);
+
+        if (response.status >= 300 && response.status < 400 && response.location) {
+            current = new URL(response.location, current).toString();
+            continue;
+        }
+
+        return response.status === 200 ? { url: current, html: await response.text() } : null;
+    }
+
+    return null;
+}
+
+/**
+ * Find the first Amazon (or amzn.to) link in an HTML page, including
+ * meta refresh and canonical tags
+ */
+function findAmazonLinkInHtml(html: string, baseUrl: string): string | null {
+    const $ = cheerio.load(html);
+    const candidates: string[] = [];
+
+    const refresh = $('meta[http-equiv="refresh" i]').attr("content") || "";
+    const refreshMatch = refresh.match(/url=(.+)$/i);
+    if (refreshMatch) candidates.push(refreshMatch[1].trim().replace(/^['"]|['"]$/g, ""));
+
+    candidates.push($('link[rel="canonical"]').attr("href") || "");
+
+    $("a[href]").each((index, el) => {
+        candidates.push($(el).attr("href") || "");
+    });
+
+    for (const candidate of candidates) {
+        if (!candidate || !isAmazonUrl(candidate)) continue;
+        try {
+            return new URL(candidate, baseUrl).toString();
+        } catch {
+            // Skip malformed href
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Resolve the ASIN for a deal: first through its Amazon link (short links,
+ * redirects), then by opening the deal page on the community site
+ */
+export async function resolveDealAsin(
+    deal: { amazonUrl?: string | null; dealUrl?: string | null },
+    http: HttpClient = defaultHttpClient,
+    deadline = Infinity
+): Promise<{ asin: string; url: string } | null> {
+    if (deal.amazonUrl) {
+        try {
+            const resolved = await resolveShortLink(deal.amazonUrl, http, deadline);
+            if (resolved) return resolved;
+        } catch (error) {
+            console.warn(`Failed to resolve ${deal.amazonUrl}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    if (deal.dealUrl) {
+        try {
+            const page = await fetchPage(deal.dealUrl, http, deadline);
+            const amazonLink = page ? findAmazonLinkInHtml(page.html, page.url) : null;
+
+            if (amazonLink) {
+                return await resolveShortLink(amazonLink, http, deadline);
+            }
+        } catch (error) {
+            console.warn(`Failed to read deal page ${deal.dealUrl}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return null;
+}
+
+// ============================================================================
+// DEAL ENRICHMENT (before saving)
+// ============================================================================
+
+/**
+ * Fill in asin/amazonUrl for freshly scraped deals. Deals that gain an ASIN
+ * are re-keyed by it so they land on the ASIN document. Stops at the
+ * deadline: deals saved without an ASIN are picked up by the backfill.
+ */
+export async function enrichDealAsins(
+    deals: CommunityDeal[],
+    http: HttpClient = defaultHttpClient,
+    deadline = Infinity
+): Promise<CommunityDeal[]> {
+    const missing = deals.filter((d) => !d.asin).slice(0, CONFIG.MAX_LOOKUPS);
+    if (missing.length === 0) return deals;
+
+    console.log(`Resolving ASINs for ${missing.length} deals...`);
+    let resolvedCount = 0;
+    let checkedCount = 0;
+
+    for (const deal of missing) {
+        if (Date.now() >= deadline) {
+            console.warn(`ASIN enrichment: deadline reached, ${missing.length - checkedCount} deals left for the backfill`);
+            break;
+        }
+
+        const resolved = await resolveDealAsin(deal, http, deadline);
+        checkedCount++;
+        if (resolved) {
+            deal.asin = resolved.asin;
+            deal.id = resolved.asin;
+            deal.amazonUrl = resolved.url;
+            resolvedCount++;
+        }
+        await sleep(CONFIG.LOOKUP_DELAY_MS);
+    }
+
+    console.log(`ASIN enrichment: resolved ${resolvedCount}/${missing.length}`);
+    return deals;
+}
+
+// ============================================================================
+// FIRESTORE BACKFILL
+// ============================================================================
+
+/**
+ * Resolve ASINs for stored products that still lack one.
+ *
+ * The product is merged into products/{asin}: fields already on the ASIN
+ * document win, the old document keeps a `mergedInto` pointer so existing
+ * /r/?id=<oldId> links keep working.
+ */
+export async function backfillProductAsins(
+    db: admin.firestore.Firestore,
+    partnerTag: string,
+    http: HttpClient = defaultHttpClient,
+    deadline = Infinity
+): Promise<{ checked: number; resolved: number; merged: number }> {
+    const candidates: admin.firestore.QueryDocumentSnapshot[] = [];
+    let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
+
+    // Products that used up their attempts stay in the asin == null set:
+    // page past them so they never crowd out the rest
+    while (candidates.length < CONFIG.MAX_LOOKUPS) {
+        let query = db.collection("products")
+            .where("asin", "==", null)
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(CONFIG.MAX_LOOKUPS * 2);
+        if (cursor) query = query.startAfter(cursor);
+
+        const page = await query.get();
+        candidates.push(...page.docs
+            .filter((doc) => !doc.get("mergedInto"))
+            .filter((doc) => (doc.get("asinLookupAttempts") || 0) < CONFIG.MAX_LOOKUP_ATTEMPTS)
+            .slice(0, CONFIG.MAX_LOOKUPS - candidates.length));
+
+        if (page.size < CONFIG.MAX_LOOKUPS * 2) break;
+        cursor = page.docs[page.docs.length - 1];
+    }
+
+    let resolvedCount = 0;
+    let mergedCount = 0;
+    let checkedCount = 0;
+
+    for (const doc of candidates) {
+        if (Date.now() >= deadline) {
+            console.warn(`ASIN backfill: deadline reached after ${checkedCount}/${candidates.length} products`);
+            break;
+        }
+
+        const data = doc.data();
+        const resolved = await resolveDealAsin({ amazonUrl: data.amazonUrl, dealUrl: data.dealUrl }, http, deadline);
+
+        // Cut short by the deadline: not an attempt
+        if (!resolved && Date.now() >= deadline) break;
+        checkedCount++;
+
+        if (!resolved) {
+            await doc.ref.update({
+                asinLookupAttempts: admin.firestore.FieldValue.increment(1),
+                asinLookupAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            await sleep(CONFIG.LOOKUP_DELAY_MS);
+            continue;
+        }
+
+        const { asin } = resolved;
+        const affiliateLink = `https://www.amazon.com.br/dp/${asin}?tag=${partnerTag}`;
+        const targetRef = db.collection("products").doc(asin);
+
+        // Counted after commit: the callback may run more than once
+        const merged = await db.runTransaction(async (tx) => {
+            const target = await tx.get(targetRef);
+
+            // Drop bookkeeping fields from the old document
+            const { asinLookupAttempts, asinLookupAt, ...oldData } = data;
+
+            tx.set(targetRef, {
+                ...oldData,
+                ...(target.data() || {}),
+                id: asin,
+                asin,
+                amazonUrl: resolved.url,
+                affiliateLink,
+                mergedFrom: admin.firestore.FieldValue.arrayUnion(doc.id),
+            }, { merge: true });
+
+            tx.update(doc.ref, {
+                asin,
+                affiliateLink,
+                mergedInto: asin,
+                mergedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+
+            return target.exists;
+        });
+
+        if (merged) mergedCount++;
+        resolvedCount++;
+        await sleep(CONFIG.LOOKUP_DELAY_MS);
+    }
+
+    console.log(`ASIN backfill: ${resolvedCount}/${checkedCount} resolved, ${mergedCount} merged into existing products`);
+    return { checked: checkedCount, resolved: resolvedCount, merged: mergedCount };
+}
+
+export { CONFIG as ASIN_ENRICHMENT_CONFIG };
@@ -0,0 +1,83 @@
+/**
+ * Parsing helpers shared by community deal source adapters
+ */
+
+// Category mapping
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+    electronics: ["eletrônico", "celular", "smartphone", "notebook", "tablet", "fone", "tv", "monitor", "ssd", "hd", "mouse", "teclado", "webcam", "câmera", "console", "playstation", "xbox", "switch", "gamer"],
+    home: ["casa", "cozinha", "eletrodoméstico", "aspirador", "cafeteira", "liquidificador", "airfryer", "panela", "fogão", "geladeira", "micro-ondas", "ventilador", "ar condicionado"],
+    sports: ["esporte", "academia", "fitness", "bike", "bicicleta", "tênis", "corrida", "whey", "suplemento", "haltere", "esteira"],
+    toys: ["brinquedo", "lego", "boneca", "carrinho", "jogo", "nerf", "barbie", "hot wheels"],
+};
+
+export function extractAsin(url: string): string | null {
+    if (!url) return null;
+
+    let decoded = url;
+    try {
+        decoded = decodeURIComponent(url);
+    } catch {
+        // Keep raw URL
+    }
+
+    // Only trust full Amazon URLs; amzn.to codes are not ASINs and must be
+    // resolved first (see asinEnrichment.ts)
+    if (!/amazon\.com/i.test(decoded)) return null;
+
+    const patterns = [
+        /\/dp\/(?:product\/)?([A-Z0-9]{10})(?:[/?&#]|$)/i,
+        /\/gp\/product\/([A-Z0-9]{10})(?:[/?&#]|$)/i,
+        /\/gp\/aw\/d\/([A-Z0-9]{10})(?:[/?&#]|$)/i,
+        /\/o\/ASIN\/([A-Z0-9]{10})(?:[/?&#]|$)/i,
+        /[?&]asin=([A-Z0-9]{10})(?:&|$)/i,
+    ];
+
+    for (const pattern of patterns) {
+        const match = decoded.match(pattern);
+        if (match) return match[1].toUpperCase();
+    }
+    return null;
+}
+
+export function parsePrice(priceStr: string): number {
+    if (!priceStr) return 0;
+    const cleaned = priceStr
+        .replace(/[R$\s]/g, "")
+        .replace(/\.(?=\d{3})/g, "")
+        .replace(",", ".");
+    const price = parseFloat(cleaned);
+    return isNaN(price) ? 0 : price;
+}
+
+export function parseDiscount(discountStr: string): number {
+    if (!discountStr) return 0;
+    const match = discountStr.match(/(\d+)/);
+    return match ? parseInt(match[1], 10) : 0;
+}
+
+export function parseUpvotes(voteStr: string): number {
+    if (!voteStr) return 0;
+    const cleaned = voteStr.replace(/[^\d-]/g, "");
+    return parseInt(cleaned, 10) || 0;
+}
+
+export function normalizeCategory(text: string): string {
+    const lower = text.toLowerCase();
+
+    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+        if (keywords.some((kw) => lower.includes(kw))) {
+            return category;
+        }
+    }
+
+    return "other";
+}
+
+export function generateDealId(source: string, title: string, price: number): string {
+    const hash = title.toLowerCase().replace(/[^a-z0-9]/g, "").substring(0, 20);
+    return `${source.toLowerCase()}-${hash}-${Math.round(price)}`;
+}
+
+export function isAmazonUrl(url: string): boolean {
+    return url.includes("amazon") || url.includes("amzn");
+}
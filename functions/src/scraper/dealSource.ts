@@ -0,0 +1,101 @@
+/**
+ * Deal Source Adapters - Pluggable community deal sources
+ *
+ * Each source (Pelando, Promobit, Gatry, RSS feeds...) is an adapter that
+ * knows how to fetch its raw payload, parse it into raw items and normalize
+ * those items into CommunityDeal records. The discovery loop in
+ * communityScraper.ts only talks to this interface.
+ *
+ * Adapters must keep parse() and normalize() free of network access so they
+ * can be exercised against saved HTML/JSON fixtures.
+ */
+
+import { ScoreBreakdown } from "../dealScoring";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CommunityDeal {
+    id: string;
+    title: string;
+    price: number;
+    originalPrice?: number;
+    discount: number;
+    dealUrl: string;
+    amazonUrl?: string;
+    asin?: string;
+    imageUrl: string;
+    upvotes: number;
+    category: string;
+    normalizedCategory: string;
+    source: string;
+    dealScore: number;
+    scoreBreakdown?: ScoreBreakdown;
+    scrapedAt: number;
+}
+
+/**
+ * Deal as produced by an adapter, before the core loop scores it
+ */
+export type NormalizedDeal = Omit<CommunityDeal, "dealScore" | "scoreBreakdown">;
+
+/**
+ * Per-source request budget, enforced by the discovery loop
+ */
+export interface SourceRateLimit {
+    maxRequests: number;  // Maximum requests to this source per session
+    delayMinMs: number;   // Minimum delay between requests to this source
+    delayMaxMs: number;   // Maximum delay between requests to this source
+}
+
+/**
+ * Rate-limited HTTP access handed to adapters by the discovery loop.
+ * Returns null when the request failed or the source budget is exhausted.
+ */
+export interface SourceFetchContext {
+    get(url: string, accept?: string): Promise<string | null>;
+}
+
+export interface DealSource<TRaw = unknown> {
+    name: string;
+    enabled: boolean;
+    rateLimit: SourceRateLimit;
+
+    /** Fetch raw payloads (HTML pages, JSON documents, RSS feeds) */
+    fetch(ctx: SourceFetchContext): Promise<string[]>;
+
+    /** Parse one payload into raw items (no network access) */
+    parse(payload: string): TRaw[];
+
+    /** Convert a raw item into a deal, or null to discard it */
+    normalize(raw: TRaw, scrapedAt: number): NormalizedDeal | null;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, DealSource>();
+
+/**
+ * Register a deal source. Registering the same name twice replaces it.
+ */
+export function registerDealSource<TRaw>(source: DealSource<TRaw>): void {
+    registry.set(source.name.toLowerCase(), source as DealSource);
+}
+
+export function unregisterDealSource(name: string): boolean {
+    return registry.delete(name.toLowerCase());
+}
+
+export function getDealSource(name: string): DealSource | undefined {
+    return registry.get(name.toLowerCase());
+}
+
+/**
+ * All enabled sources, in registration order
+ */
+export function getDealSources(): DealSource[] {
+    return Array.from(registry.values()).filter((s) => s.enabled);
+}
@@ -0,0 +1,469 @@
+/**
+ * Amazon Product Advertising API 5.0 Client
+ *
+ * Signed (AWS SigV4) client for the GetItems and SearchItems operations.
+ * Returns ScrapedProduct records so PA-API results can flow through the same
+ * filtering, deduplication and scoring as the HTML scraper.
+ *
+ * Credentials come from AMAZON_ACCESS_KEY / AMAZON_SECRET_KEY /
+ * AMAZON_PARTNER_TAG; with them set, fetchProducts adds PA-API search
+ * results to the community deals. Set PAAPI_ENDPOINT (e.g.
+ * http://localhost:8787) to point the client at a local stub server.
+ */
+
+import * as crypto from "crypto";
+import fetch from "node-fetch";
+import {
+    ScrapedProduct,
+    applyDealScore,
+    deduplicateProducts,
+    filterQualityProducts,
+    normalizeCategory,
+} from "./amazonScraper";
+import { CommunityDeal } from "./dealSource";
+import { DEFAULT_SCORING_SETTINGS, ScoringSettings } from "../dealScoring";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    // Amazon Brazil marketplace
+    HOST: "webservices.amazon.com.br",
+    REGION: "us-east-1",
+    MARKETPLACE: "www.amazon.com.br",
+    SERVICE: "ProductAdvertisingAPI",
+
+    // PA-API starts at 1 request per second for new associates
+    MIN_REQUEST_INTERVAL_MS: 1100,
+
+    // Retry configuration (throttling / transient errors)
+    MAX_RETRIES: 3,
+    RETRY_DELAY_MS: 2000,
+
+    // Request timeout
+    TIMEOUT_MS: 15000,
+
+    // API limits
+    MAX_ITEM_IDS_PER_REQUEST: 10,
+    MAX_SEARCH_ITEM_COUNT: 10,
+};
+
+const RESOURCES = [
+    "ItemInfo.Title",
+    "ItemInfo.Classifications",
+    "Images.Primary.Large",
+    "Offers.Listings.Price",
+    "Offers.Listings.SavingBasis",
+    "BrowseNodeInfo.BrowseNodes",
+];
+
+const OPERATIONS = {
+    GetItems: "/paapi5/getitems",
+    SearchItems: "/paapi5/searchitems",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaapiCredentials {
+    accessKey: string;
+    secretKey: string;
+    partnerTag: string;
+}
+
+export interface PaapiClientOptions extends PaapiCredentials {
+    host?: string;
+    region?: string;
+    marketplace?: string;
+    endpoint?: string;  // Full base URL override (local stub servers); also sets the signed host
+    scoring?: ScoringSettings;
+}
+
+export interface SearchItemsParams {
+    keywords: string;
+    searchIndex?: string;       // e.g. "Electronics", "HomeAndKitchen"
+    itemCount?: number;         // 1-10
+    itemPage?: number;          // 1-10
+    minSavingPercent?: number;
+    category?: string;          // Our category to tag results with
+}
+
+type PaapiOperation = keyof typeof OPERATIONS;
+
+interface PaapiItem {
+    ASIN: string;
+    DetailPageURL?: string;
+    ItemInfo?: {
+        Title?: { DisplayValue?: string };
+        Classifications?: { ProductGroup?: { DisplayValue?: string } };
+    };
+    Images?: { Primary?: { Large?: { URL?: string } } };
+    Offers?: {
+        Listings?: {
+            Price?: { Amount?: number; Savings?: { Percentage?: number } };
+            SavingBasis?: { Amount?: number };
+        }[];
+    };
+    BrowseNodeInfo?: { BrowseNodes?: { DisplayName?: string }[] };
+}
+
+interface PaapiResponse {
+    ItemsResult?: { Items?: PaapiItem[] };
+    SearchResult?: { Items?: PaapiItem[]; TotalResultCount?: number };
+    Errors?: { Code: string; Message: string }[];
+}
+
+export interface PaapiClient {
+    getItems(asins: string[]): Promise<ScrapedProduct[]>;
+    searchItems(params: SearchItemsParams): Promise<ScrapedProduct[]>;
+}
+
+// ============================================================================
+// SIGV4 SIGNING
+// ============================================================================
+
+function sha256Hex(data: string): string {
+    return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+    return crypto.createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+function toAmzDate(date: Date): string {
+    return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+export interface SigV4Credentials {
+    accessKey: string;
+    secretKey: string;
+    region: string;
+    service: string;
+}
+
+/**
+ * AWS Signature Version 4 Authorization header for a request without a
+ * query string. Every header in `headers` (lowercase names) is signed.
+ */
+export function signV4(
+    credentials: SigV4Credentials,
+    method: string,
+    path: string,
+    headers: Record<string, string>,
+    payload: string,
+    amzDate: string
+): string {
+    const dateStamp = amzDate.substring(0, 8);
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map((h) => `${h}:${headers[h].trim()}\n`).join("");
+    const signedHeaders = signedHeaderNames.join(";");
+
+    const canonicalRequest = [
+        method,
+        path,
+        "",
+        canonicalHeaders,
+        signedHeaders,
+        sha256Hex(payload),
+    ].join("\n");
+
+    const credentialScope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+    const stringToSign = [
+        "AWS4-HMAC-SHA256",
+        amzDate,
+        credentialScope,
+        sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const kDate = hmac(`AWS4${credentials.secretKey}`, dateStamp);
+    const kRegion = hmac(kDate, credentials.region);
+    const kService = hmac(kRegion, credentials.service);
+    const kSigning = hmac(kService, "aws4_request");
+    const signature = crypto.createHmac("sha256", kSigning).update(stringToSign, "utf8").digest("hex");
+
+    return `AWS4-HMAC-SHA256 Credential=${credentials.accessKey}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+/**
+ * Build SigV4-signed headers for a PA-API POST request
+ */
+export function signRequest(
+    options: { accessKey: string; secretKey: string; host: string; region: string },
+    operation: PaapiOperation,
+    payload: string,
+    now: Date = new Date()
+): Record<string, string> {
+    const amzDate = toAmzDate(now);
+
+    const headers: Record<string, string> = {
+        "content-encoding": "amz-1.0",
+        "content-type": "application/json; charset=utf-8",
+        "host": options.host,
+        "x-amz-date": amzDate,
+        "x-amz-target": `com.amazon.paapi5.v1.ProductAdvertisingAPIv1.${operation}`,
+    };
+
+    return {
+        ...headers,
+        "Authorization": signV4(
+            { ...options, service: CONFIG.SERVICE },
+            "POST",
+            OPERATIONS[operation],
+            headers,
+            payload,
+            amzDate
+        ),
+    };
+}
+
+// ============================================================================
+// RESPONSE MAPPING
+// ============================================================================
+
+function toScrapedProduct(
+    item: PaapiItem,
+    category: string | undefined,
+    scrapedAt: number,
+    scoring: ScoringSettings
+): ScrapedProduct | null {
+    const title = item.ItemInfo?.Title?.DisplayValue || "";
+    const listing = item.Offers?.Listings?.[0];
+    const price = listing?.Price?.Amount || 0;
+
+    if (!item.ASIN || !title || price <= 0) return null;
+
+    const originalPrice = listing?.SavingBasis?.Amount || 0;
+    let discount = listing?.Price?.Savings?.Percentage || 0;
+    if (discount === 0 && originalPrice > price) {
+        discount = Math.round(((originalPrice - price) / originalPrice) * 100);
+    }
+
+    const browseNode = item.BrowseNodeInfo?.BrowseNodes?.[0]?.DisplayName || "";
+    const productGroup = item.ItemInfo?.Classifications?.ProductGroup?.DisplayValue || "";
+    const productCategory = category || browseNode || productGroup;
+
+    const product: ScrapedProduct = {
+        asin: item.ASIN,
+        title: title.substring(0, 250),
+        price,
+        originalPrice: originalPrice > price ? originalPrice : undefined,
+        discount,
+        imageUrl: item.Images?.Primary?.Large?.URL || "",
+        productUrl: item.DetailPageURL || `https://www.amazon.com.br/dp/${item.ASIN}`,
+        rating: 0,       // Not exposed by PA-API 5.0 for this marketplace
+        reviewCount: 0,
+        category: productCategory,
+        normalizedCategory: normalizeCategory(`${productCategory} ${title}`),
+        dealScore: 0,
+        source: "paapi",
+        scrapedAt,
+    };
+
+    return applyDealScore(product, scoring);
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createPaapiClient(options: PaapiClientOptions): PaapiClient {
+    // The signed host must be the one the request goes to
+    const host = options.host || (options.endpoint ? new URL(options.endpoint).host : CONFIG.HOST);
+    const region = options.region || CONFIG.REGION;
+    const marketplace = options.marketplace || CONFIG.MARKETPLACE;
+    const baseUrl = (options.endpoint || `https://${host}`).replace(/\/$/, "");
+    const scoring = options.scoring || DEFAULT_SCORING_SETTINGS;
+
+    let lastRequestAt = 0;
+
+    async function call(operation: PaapiOperation, body: Record<string, unknown>): Promise<PaapiResponse> {
+        const payload = JSON.stringify({
+            ...body,
+            PartnerTag: options.partnerTag,
+            PartnerType: "Associates",
+            Marketplace: marketplace,
+            Resources: RESOURCES,
+        });
+
+        for (let attempt = 1; attempt <= CONFIG.MAX_RETRIES; attempt++) {
+            // Respect PA-API TPS limit
+            const wait = lastRequestAt + CONFIG.MIN_REQUEST_INTERVAL_MS - Date.now();
+            if (wait > 0) await sleep(wait);
+            lastRequestAt = Date.now();
+
+            const controller = new AbortController();
+            const timeout = setTimeout(() => controller.abort(), CONFIG.TIMEOUT_MS);
+
+            try {
+                const response = await fetch(`${baseUrl}${OPERATIONS[operation]}`, {
+                    method: "POST",
+                    headers: signRequest({ ...options, host, region }, operation, payload),
+                    body: payload,
+                    signal: controller.signal as AbortSignal,
+                });
+
+                const data = await response.json().catch(() => ({})) as PaapiResponse;
+
+                // Throttled or server error: back off and retry
+                if (response.status === 429 || response.status >= 500) {
+                    throw new Error(`HTTP ${response.status}: ${data.Errors?.[0]?.Message || response.statusText}`);
+                }
+
+                if (!response.ok) {
+                    const err = data.Errors?.[0];
+                    throw Object.assign(
+                        new Error(`PA-API ${operation} failed: ${err ? `${err.Code} - ${err.Message}` : `HTTP ${response.status}`}`),
+                        { retryable: false }
+                    );
+                }
+
+                // Partial errors (e.g. some ASINs unavailable) are logged, not fatal
+                if (data.Errors?.length) {
+                    data.Errors.forEach((e) => console.warn(`PA-API ${operation}: ${e.Code} - ${e.Message}`));
+                }
+
+                return data;
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                const retryable = (error as { retryable?: boolean }).retryable !== false;
+                console.error(`PA-API attempt ${attempt}/${CONFIG.MAX_RETRIES} failed: ${errorMsg}`);
+
+                if (!retryable || attempt === CONFIG.MAX_RETRIES) throw error;
+                await sleep(CONFIG.RETRY_DELAY_MS * attempt); // Exponential backoff
+            } finally {
+                clearTimeout(timeout);
+            }
+        }
+
+        throw new Error(`PA-API ${operation} failed after ${CONFIG.MAX_RETRIES} attempts`);
+    }
+
+    return {
+        async getItems(asins: string[]): Promise<ScrapedProduct[]> {
+            const products: ScrapedProduct[] = [];
+            const now = Date.now();
+
+            for (let i = 0; i < asins.length; i += CONFIG.MAX_ITEM_IDS_PER_REQUEST) {
+                const chunk = asins.slice(i, i + CONFIG.MAX_ITEM_IDS_PER_REQUEST);
+                const data = await call("GetItems", { ItemIds: chunk, ItemIdType: "ASIN" });
+
+                for (const item of data.ItemsResult?.Items || []) {
+                    const product = toScrapedProduct(item, undefined, now, scoring);
+                    if (product) products.push(product);
+                }
+            }
+
+            return products;
+        },
+
+        async searchItems(params: SearchItemsParams): Promise<ScrapedProduct[]> {
+            const body: Record<string, unknown> = {
+                Keywords: params.keywords,
+                SearchIndex: params.searchIndex || "All",
+                ItemCount: Math.min(params.itemCount || CONFIG.MAX_SEARCH_ITEM_COUNT, CONFIG.MAX_SEARCH_ITEM_COUNT),
+                ItemPage: params.itemPage || 1,
+            };
+            if (params.minSavingPercent) body.MinSavingPercent = params.minSavingPercent;
+
+            const data = await call("SearchItems", body);
+            const now = Date.now();
+
+            return (data.SearchResult?.Items || [])
+                .map((item) => toScrapedProduct(item, params.category, now, scoring))
+                .filter((p): p is ScrapedProduct => p !== null);
+        },
+    };
+}
+
+/**
+ * Create a client from environment variables, or null if not configured
+ */
+export function createPaapiClientFromEnv(scoring?: ScoringSettings): PaapiClient | null {
+    const accessKey = process.env.AMAZON_ACCESS_KEY;
+    const secretKey = process.env.AMAZON_SECRET_KEY;
+    const partnerTag = process.env.AMAZON_PARTNER_TAG;
+
+    if (!accessKey || !secretKey || !partnerTag) {
+        return null;
+    }
+
+    return createPaapiClient({
+        accessKey,
+        secretKey,
+        partnerTag,
+        endpoint: process.env.PAAPI_ENDPOINT || undefined,
+        scoring,
+    });
+}
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+const DEFAULT_SEARCHES: SearchItemsParams[] = [
+    { keywords: "ofertas", searchIndex: "Electronics", category: "electronics", minSavingPercent: 10 },
+    { keywords: "ofertas", searchIndex: "HomeAndKitchen", category: "home", minSavingPercent: 10 },
+    { keywords: "ofertas", searchIndex: "SportsAndOutdoors", category: "sports", minSavingPercent: 10 },
+    { keywords: "ofertas", searchIndex: "ToysAndGames", category: "toys", minSavingPercent: 10 },
+];
+
+/**
+ * Discover discounted products via SearchItems, filtered and scored like
+ * the HTML scraper's output
+ */
+export async function discoverPaapiProducts(
+    client: PaapiClient,
+    limit = 20,
+    searches: SearchItemsParams[] = DEFAULT_SEARCHES,
+    scoring: ScoringSettings = DEFAULT_SCORING_SETTINGS
+): Promise<ScrapedProduct[]> {
+    let allProducts: ScrapedProduct[] = [];
+
+    for (const search of searches) {
+        try {
+            const products = await client.searchItems(search);
+            console.log(`PA-API: ${products.length} products for "${search.keywords}" in ${search.searchIndex || "All"}`);
+            allProducts = allProducts.concat(products);
+        } catch (error) {
+            console.error(`PA-API search failed for ${search.searchIndex || "All"}:`, error);
+        }
+    }
+
+    allProducts = filterQualityProducts(deduplicateProducts(allProducts), scoring.amazon.thresholds);
+    allProducts.sort((a, b) => b.dealScore - a.dealScore);
+
+    return allProducts.slice(0, limit);
+}
+
+/**
+ * PA-API product as a deal for the fetch pipeline (keyed by its ASIN)
+ */
+export function paapiProductToDeal(product: ScrapedProduct): CommunityDeal {
+    return {
+        id: product.asin,
+        asin: product.asin,
+        title: product.title,
+        price: product.price,
+        originalPrice: product.originalPrice,
+        discount: product.discount,
+        dealUrl: product.productUrl,
+        amazonUrl: product.productUrl,
+        imageUrl: product.imageUrl,
+        upvotes: 0,
+        category: product.category,
+        normalizedCategory: product.normalizedCategory,
+        source: product.source,
+        dealScore: product.dealScore,
+        scoreBreakdown: product.scoreBreakdown,
+        scrapedAt: product.scrapedAt,
+    };
+}
+
+export { CONFIG as PAAPI_CONFIG };
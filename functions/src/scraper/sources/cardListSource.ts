@@ -0,0 +1,236 @@
+/**
+ * Card List Source - Generic adapter for deal sites rendered as HTML card lists
+ *
+ * Pelando and Promobit both render a list of deal cards; each site only
+ * differs in its URL and CSS selectors. Selector strings may hold several
+ * comma-separated alternatives, tried in order.
+ */
+
+import * as cheerio from "cheerio";
+import { DealSource, NormalizedDeal, SourceRateLimit } from "../dealSource";
+import {
+    extractAsin,
+    generateDealId,
+    isAmazonUrl,
+    normalizeCategory,
+    parseDiscount,
+    parsePrice,
+    parseUpvotes,
+} from "../dealParsing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CardSelectors {
+    dealCard: string;
+    title: string;
+    price: string;
+    originalPrice: string;
+    discount: string;
+    link: string;
+    image: string;
+    upvotes: string;
+    category: string;
+}
+
+export interface CardListSourceConfig {
+    name: string;
+    url: string;
+    baseUrl: string;        // Used to resolve relative deal page links
+    selectors: CardSelectors;
+    rateLimit: SourceRateLimit;
+    maxItems?: number;      // Maximum cards parsed per page (default 30)
+    enabled?: boolean;
+}
+
+export interface RawCardDeal {
+    title: string;
+    amazonUrl: string;
+    dealUrl: string;
+    price: number;
+    originalPrice: number;
+    discount: number;
+    upvotes: number;
+    imageUrl: string;
+    category: string;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function createCardListSource(config: CardListSourceConfig): DealSource<RawCardDeal> {
+    const maxItems = config.maxItems ?? 30;
+
+    function parse(html: string): RawCardDeal[] {
+        const $ = cheerio.load(html);
+        const { selectors } = config;
+        const items: RawCardDeal[] = [];
+        const processedTitles = new Set<string>();
+
+        console.log(`Parsing HTML from ${config.name}...`);
+
+        // Returns the first non-empty value among comma-separated selectors
+        const firstMatch = <T>(
+            selectorList: string,
+            read: (sel: string) => T,
+            isValid: (value: T) => boolean
+        ): T | undefined => {
+            let value: T | undefined;
+            for (const sel of selectorList.split(", ")) {
+                value = read(sel);
+                if (isValid(value)) return value;
+            }
+            return value;
+        };
+
+        // Try each deal card selector
+        for (const cardSelector of selectors.dealCard.split(", ")) {
+            $(cardSelector).each((index, el) => {
+                if (items.length >= maxItems) return;
+
+                try {
+                    const $el = $(el);
+
+                    const title = firstMatch(
+                        selectors.title,
+                        (sel) => $el.find(sel).first().text().trim(),
+                        (v) => v.length > 0
+                    ) || "";
+
+                    if (!title || title.length < 10) return;
+
+                    // Skip duplicates
+                    const titleKey = title.toLowerCase().substring(0, 50);
+                    if (processedTitles.has(titleKey)) return;
+                    processedTitles.add(titleKey);
+
+                    // Must be Amazon deal
+                    let amazonUrl = firstMatch(
+                        selectors.link,
+                        (sel) => $el.find(sel).first().attr("href") || "",
+                        (v) => v.includes("amazon")
+                    ) || "";
+                    if (!amazonUrl.includes("amazon")) amazonUrl = "";
+
+                    // Also check in title link
+                    if (!amazonUrl) {
+                        for (const link of $el.find("a").toArray()) {
+                            const href = $(link).attr("href") || "";
+                            if (isAmazonUrl(href)) {
+                                amazonUrl = href;
+                                break;
+                            }
+                        }
+                    }
+
+                    if (!amazonUrl) return; // Skip non-Amazon deals
+
+                    const price = firstMatch(
+                        selectors.price,
+                        (sel) => parsePrice($el.find(sel).first().text()),
+                        (v) => v > 0
+                    ) || 0;
+
+                    const originalPrice = firstMatch(
+                        selectors.originalPrice,
+                        (sel) => parsePrice($el.find(sel).first().text()),
+                        (v) => v > 0
+                    ) || 0;
+
+                    const discount = firstMatch(
+                        selectors.discount,
+                        (sel) => parseDiscount($el.find(sel).first().text()),
+                        (v) => v > 0
+                    ) || 0;
+
+                    const upvotes = firstMatch(
+                        selectors.upvotes,
+                        (sel) => parseUpvotes($el.find(sel).first().text()),
+                        (v) => v !== 0
+                    ) || 0;
+
+                    let imageUrl = firstMatch(
+                        selectors.image,
+                        (sel) => {
+                            const img = $el.find(sel).first();
+                            return img.attr("src") || img.attr("data-src") || "";
+                        },
+                        (v) => v.length > 0
+                    ) || "";
+
+                    // Fallback to any image
+                    if (!imageUrl) {
+                        const anyImg = $el.find("img").first();
+                        imageUrl = anyImg.attr("src") || anyImg.attr("data-src") || "";
+                    }
+
+                    const category = firstMatch(
+                        selectors.category,
+                        (sel) => $el.find(sel).first().text().trim(),
+                        (v) => v.length > 0
+                    ) || "";
+
+                    items.push({
+                        title,
+                        amazonUrl,
+                        dealUrl: $el.find("a").first().attr("href") || "",
+                        price,
+                        originalPrice,
+                        discount,
+                        upvotes,
+                        imageUrl,
+                        category,
+                    });
+                } catch (err) {
+                    // Silently skip malformed items
+                    console.debug("Error parsing deal card:", err);
+                }
+            });
+
+            if (items.length > 0) break; // Found deals with this selector
+        }
+
+        console.log(`Found ${items.length} Amazon deals from ${config.name}`);
+        return items;
+    }
+
+    function normalize(raw: RawCardDeal, scrapedAt: number): NormalizedDeal | null {
+        const asin = extractAsin(raw.amazonUrl);
+
+        let discount = raw.discount;
+        if (discount === 0 && raw.originalPrice > raw.price && raw.price > 0) {
+            discount = Math.round(((raw.originalPrice - raw.price) / raw.originalPrice) * 100);
+        }
+
+        return {
+            id: asin || generateDealId(config.name, raw.title, raw.price),
+            title: raw.title.substring(0, 250),
+            price: raw.price,
+            originalPrice: raw.originalPrice || undefined,
+            discount,
+            dealUrl: raw.dealUrl.startsWith("http") ? raw.dealUrl : `${config.baseUrl}${raw.dealUrl}`,
+            amazonUrl: raw.amazonUrl,
+            asin: asin || undefined,
+            imageUrl: raw.imageUrl,
+            upvotes: raw.upvotes,
+            category: raw.category || "Geral",
+            normalizedCategory: normalizeCategory(raw.title + " " + raw.category),
+            source: config.name,
+            scrapedAt,
+        };
+    }
+
+    return {
+        name: config.name,
+        enabled: config.enabled ?? true,
+        rateLimit: config.rateLimit,
+        fetch: async (ctx) => {
+            const html = await ctx.get(config.url);
+            return html ? [html] : [];
+        },
+        parse,
+        normalize,
+    };
+}
@@ -0,0 +1,58 @@
+/**
+ * Built-in community deal sources
+ *
+ * To add a source, create an adapter implementing DealSource (or reuse
+ * createCardListSource for card-based sites) and append it to BUILTIN_SOURCES.
+ */
+
+import { DealSource } from "../dealSource";
+import { createCardListSource } from "./cardListSource";
+
+export const pelandoSource = createCardListSource({
+    name: "Pelando",
+    url: "https://www.pelando.com.br/search?q=amazon",
+    baseUrl: "https://www.pelando.com.br",
+    selectors: {
+        dealCard: '[data-t="dealCard"], .sc-b0f6b0c2-0, .dealCard',
+        title: '[data-t="dealTitle"], .thread-title, .dealTitle',
+        price: '[data-t="dealPrice"], .dealPrice, .thread-price',
+        originalPrice: '[data-t="originalPrice"], .originalPrice, .thread-price-old',
+        discount: '[data-t="discount"], .discount-badge, .dealDiscount',
+        link: 'a[href*="amazon"]',
+        image: 'img[src*="amazon"], img[data-src*="amazon"]',
+        upvotes: '[data-t="voteCount"], .vote-count, .dealVotes',
+        category: '[data-t="category"], .category-tag, .threadCategory',
+    },
+    rateLimit: {
+        maxRequests: 2,
+        delayMinMs: 3000,
+        delayMaxMs: 6000,
+    },
+});
+
+export const promobitSource = createCardListSource({
+    name: "Promobit",
+    url: "https://www.promobit.com.br/promocoes/loja/amazon",
+    baseUrl: "https://www.promobit.com.br",
+    selectors: {
+        dealCard: '.offer-card, .promotion-card, [data-offer-id]',
+        title: '.offer-title, .promotion-title, h2 a',
+        price: '.offer-price, .price-current, .promotion-price',
+        originalPrice: '.offer-price-old, .price-old',
+        discount: '.offer-discount, .discount-tag',
+        link: 'a[href*="amazon"]',
+        image: 'img.offer-image, img.promotion-image',
+        upvotes: '.offer-votes, .vote-count',
+        category: '.offer-category, .category-name',
+    },
+    rateLimit: {
+        maxRequests: 2,
+        delayMinMs: 3000,
+        delayMaxMs: 6000,
+    },
+});
+
+export const BUILTIN_SOURCES: DealSource[] = [
+    pelandoSource as DealSource,
+    promobitSource as DealSource,
+];
@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import type * as admin from "firebase-admin";
+import { ASIN_ENRICHMENT_CONFIG, backfillProductAsins, enrichDealAsins, HttpClient } from "../src/scraper/asinEnrichment";
+import { CommunityDeal } from "../src/scraper/dealSource";
+
+ASIN_ENRICHMENT_CONFIG.LOOKUP_DELAY_MS = 0;
+
+type Data = Record<string, unknown>;
+
+/**
+ * Just enough of Firestore for backfillProductAsins: products queried by
+ * asin == null in id order, updates, and transactions that run their
+ * callback `transactionRuns` times (as contention retries do)
+ */
+function fakeDb(products: Record<string, Data>, transactionRuns = 1) {
+    const docs = new Map(Object.entries(products).map(([id, data]) => [id, { ...data }]));
+
+    const snapshot = (id: string) => ({
+        id,
+        exists: docs.has(id),
+        ref: ref(id),
+        data: () => docs.get(id),
+        get: (field: string) => docs.get(id)?.[field],
+    });
+    const ref = (id: string) => ({
+        id,
+        update: async (data: Data) => {
+            docs.set(id, { ...docs.get(id), ...data });
+        },
+    });
+
+    const query = (after: string | null, limit: number) => ({
+        orderBy: () => query(after, limit),
+        limit: (n: number) => query(after, n),
+        startAfter: (doc: { id: string }) => query(doc.id, limit),
+        get: async () => {
+            const ids = [...docs.keys()].sort().filter((id) => docs.get(id)?.asin === null && (!after || id > after));
+            const page = ids.slice(0, limit).map(snapshot);
+            return { docs: page, size: page.length };
+        },
+    });
+
+    const db = {
+        collection: () => ({ doc: ref, where: () => query(null, Infinity) }),
+        runTransaction: async (callback: (tx: unknown) => Promise<unknown>) => {
+            let result: unknown;
+            for (let run = 0; run < transactionRuns; run++) {
+                const writes: [string, Data][] = [];
+                result = await callback({
+                    get: async (target: { id: string }) => snapshot(target.id),
+                    set: (target: { id: string }, data: Data) => writes.push([target.id, data]),
+                    update: (target: { id: string }, data: Data) => writes.push([target.id, data]),
+                });
+                if (run === transactionRuns - 1) writes.forEach(([id, data]) => docs.set(id, { ...docs.get(id), ...data }));
+            }
+            return result;
+        },
+    };
+
+    return { db: db as unknown as admin.firestore.Firestore, docs };
+}
+
+// Deal pages link straight to the product: /deal/<asin> → amazon.com.br/dp/<asin>
+const http: HttpClient = {
+    async get(url: string) {
+        const asin = url.split("/").pop() as string;
+        const html = `<a href="https://www.amazon.com.br/dp/${asin}">Comprar</a>`;
+        return { status: 200, location: null, text: async () => html };
+    },
+};
+
+test("exhausted products do not block the rest of the backlog", async () => {
+    const products: Record<string, Data> = {};
+    for (let i = 0; i < 40; i++) {
+        products[`deal-a${String(i).padStart(2, "0")}`] = { asin: null, asinLookupAttempts: ASIN_ENRICHMENT_CONFIG.MAX_LOOKUP_ATTEMPTS };
+    }
+    products["deal-z1"] = { asin: null, dealUrl: "https://www.pelando.com.br/deal/B0AAAAAAA1" };
+    products["deal-z2"] = { asin: null, dealUrl: "https://www.pelando.com.br/deal/B0AAAAAAA2" };
+
+    const { db, docs } = fakeDb(products);
+    const result = await backfillProductAsins(db, "tag-20", http);
+
+    assert.deepEqual(result, { checked: 2, resolved: 2, merged: 0 });
+    assert.equal(docs.get("deal-z1")?.mergedInto, "B0AAAAAAA1");
+    assert.equal(docs.get("B0AAAAAAA2")?.affiliateLink, "https://www.amazon.com.br/dp/B0AAAAAAA2?tag=tag-20");
+});
+
+test("merges are counted once even when the transaction retries", async () => {
+    const { db } = fakeDb({
+        "deal-1": { asin: null, dealUrl: "https://www.pelando.com.br/deal/B0AAAAAAA1" },
+        "B0AAAAAAA1": { asin: "B0AAAAAAA1", title: "Existing" },
+    }, 3);
+
+    const result = await backfillProductAsins(db, "tag-20", http);
+
+    assert.deepEqual(result, { checked: 1, resolved: 1, merged: 1 });
+});
+
+/** Deal pages that take `delayMs` to answer, counting requests */
+function slowHttp(delayMs: number) {
+    const client = {
+        requests: 0,
+        async get(url: string) {
+            client.requests++;
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+            return http.get(url);
+        },
+    };
+    return client;
+}
+
+function communityDeal(i: number): CommunityDeal {
+    return {
+        id: `pelando-deal${i}`,
+        title: `Deal ${i}`,
+        price: 100,
+        discount: 20,
+        dealUrl: `https://www.pelando.com.br/deal/B0AAAAAA${String(i).padStart(2, "0")}`,
+        imageUrl: "",
+        upvotes: 10,
+        category: "Geral",
+        normalizedCategory: "other",
+        source: "Pelando",
+        dealScore: 50,
+        scrapedAt: 0,
+    };
+}
+
+test("enrichment stops at the deadline and leaves the rest unresolved", async () => {
+    const deals = Array.from({ length: 10 }, (_, i) => communityDeal(i));
+    const client = slowHttp(40);
+
+    await enrichDealAsins(deals, client, Date.now() + 100);
+
+    const resolved = deals.filter((d) => d.asin).length;
+    assert.ok(resolved >= 1 && resolved < deals.length, `resolved ${resolved}`);
+    assert.ok(client.requests <= resolved + 1, `requests ${client.requests}`);
+    assert.equal(deals[0].asin, "B0AAAAAA00");
+    assert.equal(deals[deals.length - 1].asin, undefined);
+});
+
+test("backfill past the deadline looks nothing up and spends no attempts", async () => {
+    const { db, docs } = fakeDb({
+        "deal-1": { asin: null, dealUrl: "https://www.pelando.com.br/deal/B0AAAAAAA1" },
+    });
+    const client = slowHttp(0);
+
+    const result = await backfillProductAsins(db, "tag-20", client, Date.now() - 1);
+
+    assert.deepEqual(result, { checked: 0, resolved: 0, merged: 0 });
+    assert.equal(client.requests, 0);
+    assert.equal(docs.get("deal-1")?.asinLookupAttempts, undefined);
+});
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as admin from "firebase-admin";
+import {
+    applyClickToCounters,
+    CLICK_COUNTERS_CONFIG,
+    ClickEvent,
+    dayKey,
+    dayStart,
+    hourKey,
+    rebuildClickRollups,
+    rollupId,
+} from "../src/clickCounters";
+import { FakeFirestore } from "./fakeFirestore";
+
+test("rollup ids carry the shard, shard 0 by default", () => {
+    assert.equal(rollupId("2026-03-01", "product", "B0ABC"), "2026-03-01_product_B0ABC_0");
+    assert.equal(rollupId("2026-03-01", "group", "vip/sp", 7), "2026-03-01_group_vip_sp_7");
+});
+
+test("days are BRT calendar days", () => {
+    // 02:30 UTC is still the previous day in BRT
+    assert.equal(dayKey(Date.parse("2026-03-02T02:30:00Z")), "2026-03-01");
+    assert.equal(dayKey(Date.parse("2026-03-02T03:00:00Z")), "2026-03-02");
+    assert.equal(dayStart("2026-03-02"), Date.parse("2026-03-02T03:00:00Z"));
+    assert.equal(hourKey(Date.parse("2026-03-02T02:30:00Z")), "23");
+    assert.equal(hourKey(Date.parse("2026-03-02T12:00:00Z")), "09");
+});
+
+test("group rollups break human clicks down by country, hour and product, live and rebuilt", async () => {
+    const events: ClickEvent[] = [
+        { productId: "B0ABC", groupId: "vip", country: "BR", classification: "human", at: Date.parse("2026-03-01T15:00:00Z") },
+        { productId: "B0ABC", groupId: "vip", country: "PT", classification: "human", at: Date.parse("2026-03-01T15:40:00Z") },
+        { productId: "B0XYZ", groupId: "vip", country: "BR", classification: "human", at: Date.parse("2026-03-02T01:00:00Z") },
+        { productId: "B0XYZ", groupId: "vip", country: "US", classification: "bot", at: Date.parse("2026-03-01T16:00:00Z") },
+    ];
+
+    // Live ingestion, summed over the shards it picked
+    const live = new FakeFirestore();
+    for (const event of events) {
+        const batch = live.db.batch();
+        applyClickToCounters(batch, live.db, event);
+        batch.set(live.db.collection("clicks").doc(), {
+            productId: event.productId,
+            groupId: event.groupId,
+            country: event.country,
+            classification: event.classification,
+            createdAt: admin.firestore.Timestamp.fromMillis(event.at),
+        });
+        await batch.commit();
+    }
+
+    const merged: Record<string, Record<string, number>> = { byCountry: {}, byHour: {}, byProduct: {} };
+    live.ids("clickRollups")
+        .filter((id) => id.startsWith("2026-03-01_group_vip_"))
+        .forEach((id) => {
+            for (const field of Object.keys(merged)) {
+                Object.entries((live.data(`clickRollups/${id}`)?.[field] || {}) as Record<string, number>)
+                    .forEach(([key, count]) => (merged[field][key] = (merged[field][key] || 0) + count));
+            }
+        });
+
+    // 01:00 UTC on the 2nd is 22:00 BRT on the 1st; the bot is left out
+    const expected = {
+        byCountry: { BR: 2, PT: 1 },
+        byHour: { "12": 2, "22": 1 },
+        byProduct: { B0ABC: 2, B0XYZ: 1 },
+    };
+    assert.deepEqual(merged, expected);
+
+    // A rebuild from the raw clicks lands on the same breakdown in shard 0
+    await rebuildClickRollups(live.db, "2026-03-01", "2026-03-01");
+    const rebuilt = live.data("clickRollups/2026-03-01_group_vip_0");
+    assert.deepEqual({ byCountry: rebuilt?.byCountry, byHour: rebuilt?.byHour, byProduct: rebuilt?.byProduct }, expected);
+    assert.equal(rebuilt?.clicks, 3);
+    // Product rollups carry no breakdown
+    assert.equal(live.data("clickRollups/2026-03-01_product_B0ABC_0")?.byCountry, undefined);
+});
+
+test("rebuild pages through every click in the range", async () => {
+    const seed: Record<string, Record<string, unknown>> = {
+        "products/B0ABC/clickShards/3": { count: 99 },
+        "products/B0ABC": { title: "Fone" },
+        "clickRollups/2026-03-01_product_B0ABC_4": { day: "2026-03-01", dimension: "product", key: "B0ABC", clicks: 7 },
+    };
+    const at = admin.firestore.Timestamp.fromMillis(Date.parse("2026-03-01T15:00:00Z"));
+    const pageSize = CLICK_COUNTERS_CONFIG.REBUILD_PAGE_SIZE;
+    for (let i = 0; i < pageSize + 5; i++) {
+        seed[`clicks/c${String(i).padStart(5, "0")}`] = {
+            productId: "B0ABC",
+            groupId: i % 2 ? "vip" : "direct",
+            classification: i < 3 ? "bot" : "human",
+            createdAt: at,
+        };
+    }
+    // Recorded before createdAt existed: only counted with --counters
+    seed["clicks/legacy"] = { productId: "B0ABC", timestamp: at };
+
+    const firestore = new FakeFirestore(seed);
+    const result = await rebuildClickRollups(firestore.db, "2026-03-01", "2026-03-01");
+
+    assert.equal(result.clicksScanned, pageSize + 5);
+    assert.equal(result.rollupsDeleted, 1);
+    assert.deepEqual(firestore.data("clickRollups/2026-03-01_product_B0ABC_0")?.byClassification,
+        { human: pageSize + 2, bot: 3, preview: 0, duplicate: 0 });
+    // Odd clicks went to vip, and click 1 was a bot
+    assert.equal(firestore.data("clickRollups/2026-03-01_group_vip_0")?.clicks, Math.floor((pageSize + 5) / 2) - 1);
+
+    const withCounters = await rebuildClickRollups(firestore.db, "2026-03-01", "2026-03-01", { counters: true });
+    assert.equal(withCounters.clicksScanned, pageSize + 6);
+    assert.deepEqual(firestore.ids("products/B0ABC/clickShards"), ["0"]);
+    assert.equal(firestore.data("products/B0ABC/clickShards/0")?.count, pageSize + 3);
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CLICK_TOKEN_CONFIG, issueClickToken, verifyClickToken } from "../src/clickToken";
+
+const SECRET = "test-secret";
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const IP_HASH = "a".repeat(64);
+
+test("a token verifies for the product and client it was issued to", () => {
+    const token = issueClickToken(SECRET, "B0ABC12345", IP_HASH, NOW);
+    assert.equal(verifyClickToken(SECRET, token, "B0ABC12345", IP_HASH, NOW + 2000), true);
+});
+
+test("a token does not carry over to another product, client or secret", () => {
+    const token = issueClickToken(SECRET, "B0ABC12345", IP_HASH, NOW);
+    assert.equal(verifyClickToken(SECRET, token, "B0OTHER123", IP_HASH, NOW), false);
+    assert.equal(verifyClickToken(SECRET, token, "B0ABC12345", "b".repeat(64), NOW), false);
+    assert.equal(verifyClickToken("other-secret", token, "B0ABC12345", IP_HASH, NOW), false);
+});
+
+test("expired and future tokens are rejected", () => {
+    const token = issueClickToken(SECRET, "B0ABC12345", IP_HASH, NOW);
+    assert.equal(verifyClickToken(SECRET, token, "B0ABC12345", IP_HASH, NOW + CLICK_TOKEN_CONFIG.MAX_AGE_MS), true);
+    assert.equal(verifyClickToken(SECRET, token, "B0ABC12345", IP_HASH, NOW + CLICK_TOKEN_CONFIG.MAX_AGE_MS + 1), false);
+    assert.equal(verifyClickToken(SECRET, token, "B0ABC12345", IP_HASH, NOW - 1), false);
+});
+
+test("client-made values are not tokens", () => {
+    const token = issueClickToken(SECRET, "B0ABC12345", IP_HASH, NOW);
+    const forged = `${NOW + 1000}.${token.split(".")[1]}`;
+
+    for (const value of [undefined, null, "", "Mozilla/5.0", `${NOW}`, `${NOW}.`, forged, 42]) {
+        assert.equal(verifyClickToken(SECRET, value, "B0ABC12345", IP_HASH, NOW + 2000), false);
+    }
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CLICK_VALIDATION_CONFIG, isValidProductId, productIdFromPath, validateTrackClickBody } from "../src/clickValidation";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const SKEW = CLICK_VALIDATION_CONFIG.MAX_CLOCK_SKEW_MS;
+
+test("accepts a minimal and a complete body", () => {
+    assert.equal(validateTrackClickBody({ productId: "B0ABC12345" }, NOW), null);
+    assert.equal(validateTrackClickBody({ productId: "B0ABC12345", timestamp: NOW, userAgent: "Mozilla/5.0" }, NOW), null);
+});
+
+test("requires a usable product id", () => {
+    assert.equal(validateTrackClickBody({}, NOW), "productId is required");
+    assert.equal(validateTrackClickBody({ productId: "" }, NOW), "productId is required");
+    assert.equal(validateTrackClickBody({ productId: 42 }, NOW), "productId is required");
+    assert.equal(validateTrackClickBody({ productId: "products/B0ABC" }, NOW), "productId is invalid");
+    assert.equal(validateTrackClickBody({ productId: "x".repeat(129) }, NOW), "productId is invalid");
+});
+
+test("product ids must work as document ids", () => {
+    assert.equal(isValidProductId("deal-pelando-123"), true);
+    assert.equal(isValidProductId("."), false);
+    assert.equal(isValidProductId(".."), false);
+    assert.equal(isValidProductId("a/b"), false);
+});
+
+test("accepts timestamps within the clock skew on either side", () => {
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: NOW - SKEW }, NOW), null);
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: NOW + SKEW }, NOW), null);
+});
+
+test("rejects timestamps past the clock skew", () => {
+    const error = "timestamp is too far from server time";
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: NOW - SKEW - 1 }, NOW), error);
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: NOW + SKEW + 1 }, NOW), error);
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: 0 }, NOW), error);
+});
+
+test("rejects mistyped timestamps, user agents and click tokens", () => {
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: String(NOW) }, NOW), "timestamp must be a number (ms)");
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: NaN }, NOW), "timestamp must be a number (ms)");
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", timestamp: Infinity }, NOW), "timestamp must be a number (ms)");
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", userAgent: ["Mozilla"] }, NOW), "userAgent must be a string");
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", clickToken: { forged: true } }, NOW), "clickToken must be a string");
+    assert.equal(validateTrackClickBody({ productId: "B0ABC", clickToken: null }, NOW), null);
+});
+
+test("reads the product id from the /go/ path", () => {
+    assert.equal(productIdFromPath("/go/B0ABC12345"), "B0ABC12345");
+    assert.equal(productIdFromPath("/go/deal%20123/"), "deal 123");
+    assert.equal(productIdFromPath("/"), "");
+});
+
+test("malformed escapes in the path yield no product id", () => {
+    assert.equal(productIdFromPath("/go/%"), "");
+    assert.equal(productIdFromPath("/go/B0%E0%A4%A"), "");
+});
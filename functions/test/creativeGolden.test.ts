@@ -0,0 +1,37 @@
+/**
+ * Golden-image check (src/creativeGolden.ts) as part of npm test. Loads the
+ * production build in lib/, whose asset and golden paths resolve against
+ * functions/. Skipped only where the canvas native module cannot load.
+ */
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as path from "path";
+import { FUNCTIONS_DIR } from "./helpers";
+
+function canvasLoadError(): string | null {
+    try {
+        require("canvas");
+        return null;
+    } catch (error) {
+        return (error instanceof Error ? error.message : String(error)).split("\n")[0];
+    }
+}
+
+const canvasError = canvasLoadError();
+
+test("every fixture matches its baseline in every template", {
+    skip: canvasError ? `canvas cannot load: ${canvasError}` : false,
+}, async () => {
+    const { runGolden } = require(path.join(FUNCTIONS_DIR, "lib", "creativeGolden.js")) as
+        typeof import("../src/creativeGolden");
+
+    const results = await runGolden();
+
+    assert.ok(results.length > 0);
+    assert.deepEqual(
+        results.filter((r) => r.status !== "match").map((r) => `${r.name}: ${r.status}`),
+        [],
+        "npm run golden shows the differences; npm run golden -- --update after an intentional layout change"
+    );
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { computeCreativeHash } from "../src/creative/creativeHash";
+import { legacyCreativeFields } from "../src/creative/creativeStatus";
+
+const product = { title: "Fone Bluetooth JBL Tune 520BT", price: 199.9, originalPrice: 349, imageUrl: "https://example.com/fone.jpg" };
+
+test("legacy products without a creative become pending", () => {
+    assert.deepEqual(legacyCreativeFields(product), {
+        creativeUrl: null,
+        creativeStatus: "pending",
+        creativeAttempts: 0,
+        creativeLastError: null,
+    });
+});
+
+test("a stale legacy creative is kept until the new render", () => {
+    assert.deepEqual(legacyCreativeFields({ ...product, creativeUrl: "https://cdn/old.jpg", creativeHash: "0123456789abcdef" }), {
+        creativeUrl: "https://cdn/old.jpg",
+        creativeStatus: "pending",
+        creativeAttempts: 0,
+        creativeLastError: null,
+    });
+});
+
+test("legacy creatives without a hash are re-rendered", () => {
+    assert.equal(legacyCreativeFields({ ...product, creativeUrl: "https://cdn/old.jpg" }).creativeStatus, "pending");
+});
+
+test("a legacy creative that matches the product is ready", () => {
+    const fields = legacyCreativeFields({ ...product, creativeUrl: "https://cdn/c.jpg", creativeHash: computeCreativeHash(product) });
+    assert.deepEqual(fields, { creativeStatus: "ready", creativeAttempts: 0, creativeLastError: null });
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CTR_MULTIPLIER_RANGE, CtrMultipliers, ctrMultiplierFor, ScoreInput } from "../src/dealScoring";
+
+const deal: ScoreInput = { normalizedCategory: "electronics", price: 199, source: "pelando", discount: 45 };
+
+const multipliers = (value: number): CtrMultipliers => ({
+    version: "test",
+    category: { electronics: value },
+    priceBand: { "100-250": value },
+    source: { pelando: value },
+    discountBand: { "40+": value },
+});
+
+test("no learned weights is neutral", () => {
+    assert.equal(ctrMultiplierFor(deal, null), 1);
+    assert.equal(ctrMultiplierFor({ ...deal, normalizedCategory: "toys", price: 10, source: "amazon", discount: 5 }, multipliers(1.25)), 1);
+});
+
+test("segment multipliers combine within the range", () => {
+    const ctr = { ...multipliers(1), category: { electronics: 1.1 }, source: { pelando: 1.1 } };
+    assert.equal(Math.round(ctrMultiplierFor(deal, ctr) * 100) / 100, 1.21);
+});
+
+test("the combined multiplier is clamped to the segment bounds", () => {
+    assert.equal(ctrMultiplierFor(deal, multipliers(1.25)), CTR_MULTIPLIER_RANGE.max);
+    assert.equal(ctrMultiplierFor(deal, multipliers(0.75)), CTR_MULTIPLIER_RANGE.min);
+});
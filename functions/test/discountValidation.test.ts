@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { adjustScoreForDiscount, DISCOUNT_VALIDATION_CONFIG, validateDiscount } from "../src/discountValidation";
+import { PricePoint } from "../src/priceHistory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const history = (...prices: number[]): PricePoint[] =>
+    prices.map((price, i) => ({ price, observedAt: NOW - (i + 1) * DAY_MS }));
+
+test("small or missing discounts are not validated", () => {
+    const result = validateDiscount({ price: 100, originalPrice: 102, discount: 2 }, history(100, 100, 100), NOW);
+
+    assert.deepEqual(result, {
+        discountConfidence: 1,
+        discountVerdict: "unverified",
+        verifiedDiscount: null,
+        referencePrice: null,
+        discountFlags: [],
+    });
+});
+
+test("without enough history the claim stays unverified", () => {
+    const result = validateDiscount({ price: 80, originalPrice: 100, discount: 20 }, history(100), NOW);
+
+    assert.equal(result.discountVerdict, "unverified");
+    assert.equal(result.discountConfidence, 1);
+    assert.deepEqual(result.discountFlags, ["insufficient_history"]);
+});
+
+test("a claim that contradicts its own prices is rejected even without history", () => {
+    // 50% claimed, 10% implied by the prices
+    const result = validateDiscount({ price: 90, originalPrice: 100, discount: 50 }, [], NOW);
+
+    assert.equal(result.discountVerdict, "rejected");
+    assert.deepEqual(result.discountFlags, ["claim_mismatch", "insufficient_history"]);
+});
+
+test("a discount backed by the observed prices is verified", () => {
+    const result = validateDiscount({ price: 80, originalPrice: 100, discount: 20 }, history(100, 100, 98, 100), NOW);
+
+    assert.deepEqual(result, {
+        discountConfidence: 1,
+        discountVerdict: "verified",
+        verifiedDiscount: 20,
+        referencePrice: 100,
+        discountFlags: [],
+    });
+});
+
+test("a partly backed discount is downgraded", () => {
+    // Claimed 50% off 160, usually sold at 100: really 20% off
+    const result = validateDiscount({ price: 80, originalPrice: 160, discount: 50 }, history(100, 100, 160, 100), NOW);
+
+    assert.equal(result.discountVerdict, "downgraded");
+    assert.equal(result.verifiedDiscount, 20);
+    assert.equal(result.discountConfidence, 0.4);
+    assert.deepEqual(result.discountFlags, []);
+});
+
+test("a never-seen original price keeps the deal from being verified", () => {
+    // 20% below the usual 100 backs most of the claim, but 110 was never seen
+    const result = validateDiscount({ price: 80, originalPrice: 110, discount: 27 }, history(100, 100, 100), NOW);
+
+    assert.deepEqual(result.discountFlags, ["inflated_original_price"]);
+    assert.equal(result.discountConfidence, 0.37);
+    assert.equal(result.discountVerdict, "downgraded");
+});
+
+test("a price that was never lower is rejected", () => {
+    const result = validateDiscount({ price: 100, originalPrice: 200, discount: 50 }, history(100, 95, 100), NOW);
+
+    assert.equal(result.discountVerdict, "rejected");
+    assert.equal(result.verifiedDiscount, 0);
+    assert.deepEqual(result.discountFlags, ["inflated_original_price", "no_real_discount"]);
+});
+
+test("history outside the reference window is ignored", () => {
+    const old = history(100, 100, 100).map((p) => ({
+        ...p,
+        observedAt: NOW - (DISCOUNT_VALIDATION_CONFIG.REFERENCE_WINDOW_DAYS + 1) * DAY_MS,
+    }));
+
+    const result = validateDiscount({ price: 80, originalPrice: 100, discount: 20 }, old, NOW);
+
+    assert.equal(result.discountVerdict, "unverified");
+    assert.deepEqual(result.discountFlags, ["insufficient_history"]);
+});
+
+test("scores follow the verdict", () => {
+    const base = { verifiedDiscount: null, referencePrice: null, discountFlags: [] };
+
+    assert.equal(adjustScoreForDiscount(80, { ...base, discountConfidence: 1, discountVerdict: "verified" }), 80);
+    assert.equal(adjustScoreForDiscount(80, { ...base, discountConfidence: 1, discountVerdict: "unverified" }), 80);
+    assert.equal(adjustScoreForDiscount(80, { ...base, discountConfidence: 0.5, discountVerdict: "downgraded" }), 60);
+    assert.equal(adjustScoreForDiscount(80, { ...base, discountConfidence: 0.1, discountVerdict: "rejected" }), 0);
+});
@@ -0,0 +1,449 @@
+/**
+ * In-memory stand-in for the parts of Firestore the modules under test use:
+ * documents and subcollections, where / orderBy / limit / startAfter /
+ * select queries, getAll, batches, bulkWriter, transactions and the
+ * FieldValue transforms (increment, serverTimestamp, arrayUnion,
+ * arrayRemove, delete).
+ *
+ * Queries follow Firestore's rules where tests depend on them: documents
+ * missing a filtered or ordered field are left out, and results are ordered
+ * by the orderBy fields, then by document id.
+ */
+
+import * as admin from "firebase-admin";
+
+type Data = Record<string, unknown>;
+type Op = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "array-contains";
+
+const DOCUMENT_ID = "__name__";
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Data {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function clone<T>(value: T): T {
+    if (Array.isArray(value)) return value.map(clone) as unknown as T;
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+    }
+    return value;
+}
+
+function comparable(value: unknown): unknown {
+    if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+    if (value instanceof Date) return value.getTime();
+    return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+}
+
+function compare(a: unknown, b: unknown): number {
+    const x = comparable(a) as number | string;
+    const y = comparable(b) as number | string;
+    return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function fieldName(field: string | admin.firestore.FieldPath): string {
+    return field.toString();
+}
+
+function getField(data: Data, field: string): unknown {
+    return field.split(".").reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+}
+
+/**
+ * Write `value` at a dotted field path, applying FieldValue transforms
+ */
+function setField(data: Data, field: string, value: unknown, now: number): void {
+    const keys = field.split(".");
+    const last = keys.pop() as string;
+    let target = data;
+    for (const key of keys) {
+        if (!isPlainObject(target[key])) target[key] = {};
+        target = target[key] as Data;
+    }
+
+    if (value instanceof admin.firestore.FieldValue) {
+        const transform = value as unknown as { methodName: string; operand?: number; elements?: unknown[] };
+        const current = target[last];
+        switch (transform.methodName) {
+        case "FieldValue.delete":
+            delete target[last];
+            return;
+        case "FieldValue.serverTimestamp":
+            target[last] = admin.firestore.Timestamp.fromMillis(now);
+            return;
+        case "FieldValue.increment":
+            target[last] = (typeof current === "number" ? current : 0) + (transform.operand || 0);
+            return;
+        case "FieldValue.arrayUnion": {
+            const array = Array.isArray(current) ? [...current] : [];
+            (transform.elements || []).forEach((e) => {
+                if (!array.some((a) => sameValue(a, e))) array.push(clone(e));
+            });
+            target[last] = array;
+            return;
+        }
+        case "FieldValue.arrayRemove":
+            target[last] = (Array.isArray(current) ? current : [])
+                .filter((a) => !(transform.elements || []).some((e) => sameValue(a, e)));
+            return;
+        default:
+            throw new Error(`Unsupported FieldValue ${transform.methodName}`);
+        }
+    }
+
+    target[last] = clone(value);
+}
+
+/**
+ * set(..., { merge: true }): nested maps merge, everything else replaces
+ */
+function mergeInto(target: Data, source: Data, now: number): void {
+    for (const [key, value] of Object.entries(source)) {
+        if (isPlainObject(value)) {
+            if (!isPlainObject(target[key])) target[key] = {};
+            mergeInto(target[key] as Data, value, now);
+        } else {
+            setField(target, key, value, now);
+        }
+    }
+}
+
+// ============================================================================
+// SNAPSHOTS AND REFERENCES
+// ============================================================================
+
+export class FakeDocumentSnapshot {
+    constructor(readonly ref: FakeDocumentReference, private readonly stored: Data | undefined) {}
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): Data | undefined {
+        return this.stored === undefined ? undefined : clone(this.stored);
+    }
+
+    get(field: string | admin.firestore.FieldPath): unknown {
+        return this.stored === undefined ? undefined : clone(getField(this.stored, fieldName(field)));
+    }
+}
+
+type WriteOp = () => void;
+
+export class FakeDocumentReference {
+    constructor(readonly firestore: FakeFirestore, readonly path: string) {}
+
+    get id(): string {
+        return this.path.split("/").pop() as string;
+    }
+
+    get parent(): FakeCollectionReference {
+        return new FakeCollectionReference(this.firestore, this.path.split("/").slice(0, -1).join("/"));
+    }
+
+    collection(name: string): FakeCollectionReference {
+        return new FakeCollectionReference(this.firestore, `${this.path}/${name}`);
+    }
+
+    async get(): Promise<FakeDocumentSnapshot> {
+        return this.firestore.snapshot(this.path);
+    }
+
+    async set(data: Data, options: { merge?: boolean } = {}): Promise<void> {
+        this.setOp(data, options)();
+    }
+
+    async create(data: Data): Promise<void> {
+        this.createOp(data)();
+    }
+
+    async update(dataOrField: Data | string | admin.firestore.FieldPath, ...rest: unknown[]): Promise<void> {
+        this.updateOp(dataOrField, ...rest)();
+    }
+
+    async delete(): Promise<void> {
+        this.deleteOp()();
+    }
+
+    setOp(data: Data, options: { merge?: boolean } = {}): WriteOp {
+        return () => {
+            const now = this.firestore.now();
+            const existing = this.firestore.docs.get(this.path);
+            const next: Data = options.merge && existing ? clone(existing) : {};
+            mergeInto(next, data, now);
+            this.firestore.docs.set(this.path, next);
+        };
+    }
+
+    createOp(data: Data): WriteOp {
+        return () => {
+            if (this.firestore.docs.has(this.path)) throw new Error(`ALREADY_EXISTS: ${this.path}`);
+            this.setOp(data)();
+        };
+    }
+
+    updateOp(dataOrField: Data | string | admin.firestore.FieldPath, ...rest: unknown[]): WriteOp {
+        const fields: [string, unknown][] = typeof dataOrField === "string" || dataOrField instanceof admin.firestore.FieldPath
+            ? [[fieldName(dataOrField), rest[0]], ...pairs(rest.slice(1))]
+            : Object.entries(dataOrField);
+
+        return () => {
+            const existing = this.firestore.docs.get(this.path);
+            if (!existing) throw new Error(`NOT_FOUND: ${this.path}`);
+            const next = clone(existing);
+            const now = this.firestore.now();
+            fields.forEach(([field, value]) => setField(next, field, value, now));
+            this.firestore.docs.set(this.path, next);
+        };
+    }
+
+    deleteOp(): WriteOp {
+        return () => {
+            this.firestore.docs.delete(this.path);
+        };
+    }
+}
+
+function pairs(values: unknown[]): [string, unknown][] {
+    const result: [string, unknown][] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+        result.push([fieldName(values[i] as string | admin.firestore.FieldPath), values[i + 1]]);
+    }
+    return result;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+interface Filter {
+    field: string;
+    op: Op;
+    value: unknown;
+}
+
+interface Order {
+    field: string;
+    direction: "asc" | "desc";
+}
+
+export class FakeQuery {
+    constructor(
+        readonly firestore: FakeFirestore,
+        readonly collectionPath: string,
+        private readonly filters: Filter[] = [],
+        private readonly orders: Order[] = [],
+        private readonly limitCount: number = Infinity,
+        private readonly cursor: FakeDocumentSnapshot | null = null
+    ) {}
+
+    where(field: string | admin.firestore.FieldPath, op: Op, value: unknown): FakeQuery {
+        return new FakeQuery(this.firestore, this.collectionPath,
+            [...this.filters, { field: fieldName(field), op, value }], this.orders, this.limitCount, this.cursor);
+    }
+
+    orderBy(field: string | admin.firestore.FieldPath, direction: "asc" | "desc" = "asc"): FakeQuery {
+        return new FakeQuery(this.firestore, this.collectionPath,
+            this.filters, [...this.orders, { field: fieldName(field), direction }], this.limitCount, this.cursor);
+    }
+
+    limit(count: number): FakeQuery {
+        return new FakeQuery(this.firestore, this.collectionPath, this.filters, this.orders, count, this.cursor);
+    }
+
+    startAfter(snapshot: FakeDocumentSnapshot): FakeQuery {
+        return new FakeQuery(this.firestore, this.collectionPath, this.filters, this.orders, this.limitCount, snapshot);
+    }
+
+    select(): FakeQuery {
+        return this;
+    }
+
+    async get() {
+        const docs = this.run();
+        return { docs, size: docs.length, empty: docs.length === 0, forEach: docs.forEach.bind(docs) };
+    }
+
+    private value(snapshot: FakeDocumentSnapshot, field: string): unknown {
+        return field === DOCUMENT_ID ? snapshot.id : snapshot.get(field);
+    }
+
+    private matches(snapshot: FakeDocumentSnapshot): boolean {
+        return this.filters.every(({ field, op, value }) => {
+            const actual = this.value(snapshot, field);
+            if (actual === undefined) return false;
+            switch (op) {
+            case "==": return sameValue(actual, value);
+            case "!=": return !sameValue(actual, value);
+            case "<": return compare(actual, value) < 0;
+            case "<=": return compare(actual, value) <= 0;
+            case ">": return compare(actual, value) > 0;
+            case ">=": return compare(actual, value) >= 0;
+            case "in": return (value as unknown[]).some((v) => sameValue(actual, v));
+            case "array-contains": return Array.isArray(actual) && actual.some((v) => sameValue(v, value));
+            }
+        });
+    }
+
+    private sortKey(snapshot: FakeDocumentSnapshot): unknown[] {
+        return [...this.orders.map((o) => this.value(snapshot, o.field)), snapshot.id];
+    }
+
+    private compareKeys(a: unknown[], b: unknown[]): number {
+        for (let i = 0; i < a.length; i++) {
+            const direction = this.orders[i]?.direction === "desc" ? -1 : 1;
+            const order = compare(a[i], b[i]) * direction;
+            if (order !== 0) return order;
+        }
+        return 0;
+    }
+
+    private run(): FakeDocumentSnapshot[] {
+        const sorted = this.firestore.listCollection(this.collectionPath)
+            .filter((snapshot) => this.matches(snapshot))
+            .filter((snapshot) => this.orders.every((o) => this.value(snapshot, o.field) !== undefined))
+            .sort((a, b) => this.compareKeys(this.sortKey(a), this.sortKey(b)));
+
+        const cursor = this.cursor;
+        const afterCursor = cursor
+            ? sorted.filter((snapshot) => this.compareKeys(this.sortKey(snapshot), this.sortKey(cursor)) > 0)
+            : sorted;
+
+        return afterCursor.slice(0, this.limitCount);
+    }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+    constructor(firestore: FakeFirestore, readonly path: string) {
+        super(firestore, path);
+    }
+
+    get id(): string {
+        return this.path.split("/").pop() as string;
+    }
+
+    doc(id: string = this.firestore.autoId()): FakeDocumentReference {
+        return new FakeDocumentReference(this.firestore, `${this.path}/${id}`);
+    }
+
+    async add(data: Data): Promise<FakeDocumentReference> {
+        const ref = this.doc();
+        await ref.set(data);
+        return ref;
+    }
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+export class FakeFirestore {
+    /** Documents by full path ("products/B0ABC/clickShards/0") */
+    readonly docs = new Map<string, Data>();
+
+    private nextId = 0;
+
+    /** Time used for serverTimestamp() */
+    now: () => number = () => Date.now();
+
+    constructor(seed: Record<string, Data> = {}) {
+        Object.entries(seed).forEach(([path, data]) => this.docs.set(path, clone(data)));
+    }
+
+    /** Typed for the modules under test */
+    get db(): admin.firestore.Firestore {
+        return this as unknown as admin.firestore.Firestore;
+    }
+
+    /** Stored data for a document path (for assertions) */
+    data(path: string): Data | undefined {
+        return this.docs.get(path);
+    }
+
+    /** Document ids under a collection path (for assertions) */
+    ids(collectionPath: string): string[] {
+        return this.listCollection(collectionPath).map((snapshot) => snapshot.id).sort();
+    }
+
+    autoId(): string {
+        return `auto${String(this.nextId++).padStart(6, "0")}`;
+    }
+
+    snapshot(path: string): FakeDocumentSnapshot {
+        return new FakeDocumentSnapshot(new FakeDocumentReference(this, path), this.docs.get(path));
+    }
+
+    listCollection(collectionPath: string): FakeDocumentSnapshot[] {
+        const depth = collectionPath.split("/").length + 1;
+        return [...this.docs.keys()]
+            .filter((path) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth)
+            .map((path) => this.snapshot(path));
+    }
+
+    collection(path: string): FakeCollectionReference {
+        return new FakeCollectionReference(this, path);
+    }
+
+    doc(path: string): FakeDocumentReference {
+        return new FakeDocumentReference(this, path);
+    }
+
+    async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+        return refs.map((ref) => this.snapshot(ref.path));
+    }
+
+    batch() {
+        const ops: WriteOp[] = [];
+        const batch = {
+            set: (ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }) => (ops.push(ref.setOp(data, options)), batch),
+            create: (ref: FakeDocumentReference, data: Data) => (ops.push(ref.createOp(data)), batch),
+            update: (ref: FakeDocumentReference, data: Data | string | admin.firestore.FieldPath, ...rest: unknown[]) =>
+                (ops.push(ref.updateOp(data, ...rest)), batch),
+            delete: (ref: FakeDocumentReference) => (ops.push(ref.deleteOp()), batch),
+            commit: async () => {
+                ops.forEach((op) => op());
+                return [];
+            },
+        };
+        return batch;
+    }
+
+    bulkWriter() {
+        const writer = this.batch();
+        return {
+            set: writer.set,
+            create: writer.create,
+            update: writer.update,
+            delete: writer.delete,
+            flush: writer.commit,
+            close: writer.commit,
+        };
+    }
+
+    async runTransaction<T>(callback: (tx: unknown) => Promise<T>): Promise<T> {
+        const writes = this.batch();
+        const result = await callback({
+            get: async (target: FakeDocumentReference | FakeQuery) =>
+                target instanceof FakeDocumentReference ? target.get() : target.get(),
+            getAll: async (...refs: FakeDocumentReference[]) => this.getAll(...refs),
+            set: writes.set,
+            create: writes.create,
+            update: writes.update,
+            delete: writes.delete,
+        });
+        await writes.commit();
+        return result;
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Test helpers shared by the node:test suites (compiled to lib-test/test)
+ */
+
+import * as path from "path";
+
+// functions/ (tests run from lib-test/test)
+export const FUNCTIONS_DIR = path.join(__dirname, "..", "..");
+
+export const FIXTURES_DIR = path.join(FUNCTIONS_DIR, "test", "fixtures");
+
+export const ASSETS_DIR = path.join(FUNCTIONS_DIR, "assets");
@@ -0,0 +1,64 @@
+/**
+ * Local HTTP server standing in for external APIs (ntfy, Telegram,
+ * WhatsApp, PA-API). Records every request and answers through `respond`.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface StubRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+export interface StubResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: unknown;     // Objects are sent as JSON
+}
+
+export interface HttpStub {
+    url: string;        // http://127.0.0.1:<port>
+    requests: StubRequest[];
+    respond: (request: StubRequest) => StubResponse | Promise<StubResponse>;
+    close(): Promise<void>;
+}
+
+export async function startHttpStub(
+    respond: HttpStub["respond"] = () => ({ status: 200, body: {} })
+): Promise<HttpStub> {
+    const stub: HttpStub = {
+        url: "",
+        requests: [],
+        respond,
+        close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", async () => {
+            const request: StubRequest = {
+                method: req.method || "GET",
+                path: req.url || "/",
+                headers: req.headers,
+                body: Buffer.concat(chunks).toString("utf8"),
+            };
+            stub.requests.push(request);
+
+            const { status = 200, headers = {}, body = "" } = await stub.respond(request);
+            const text = typeof body === "string" ? body : JSON.stringify(body);
+            res.writeHead(status, {
+                "Content-Type": typeof body === "string" ? "text/plain" : "application/json",
+                ...headers,
+            });
+            res.end(text);
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return stub;
+}
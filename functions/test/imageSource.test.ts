@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { isRemoteImageUrl, loadProductImage } from "../src/creative/imageSource";
+import { ASSETS_DIR } from "./helpers";
+
+const LOCAL_IMAGE = path.join(ASSETS_DIR, "test-product.png");
+
+test("only http(s) URLs are remote", () => {
+    assert.equal(isRemoteImageUrl("https://m.media-amazon.com/images/I/x.jpg"), true);
+    assert.equal(isRemoteImageUrl("HTTP://example.com/x.png"), true);
+    assert.equal(isRemoteImageUrl("file:///etc/passwd"), false);
+    assert.equal(isRemoteImageUrl("/etc/passwd"), false);
+    assert.equal(isRemoteImageUrl("../assets/test-product.png"), false);
+});
+
+test("local paths and file:// URLs are rejected by default", async () => {
+    await assert.rejects(loadProductImage(LOCAL_IMAGE), /Unsupported image URL/);
+    await assert.rejects(loadProductImage(pathToFileURL(LOCAL_IMAGE).href), /Unsupported image URL/);
+});
+
+test("local paths and file:// URLs are read with allowLocalImages", async () => {
+    const fromPath = await loadProductImage(LOCAL_IMAGE, true);
+    const fromUrl = await loadProductImage(pathToFileURL(LOCAL_IMAGE).href, true);
+
+    assert.ok(fromPath.length > 0);
+    assert.deepEqual(fromUrl, fromPath);
+});
@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createNotifier, HotDeal, NOTIFIER_CONFIG } from "../src/notifier";
+import { startHttpStub } from "./httpStub";
+
+const deal = (id: string, dealScore: number, extra: Partial<HotDeal> = {}): HotDeal => ({
+    id,
+    asin: id,
+    title: `Oferta ${id}`,
+    price: 199.9,
+    discount: 35,
+    dealScore,
+    affiliateLink: `https://www.amazon.com.br/dp/${id}?tag=tag-20`,
+    ...extra,
+});
+
+test("hot deals are published as JSON with the token and both actions", async () => {
+    const stub = await startHttpStub();
+    try {
+        const notifier = createNotifier({
+            server: `${stub.url}/`,
+            topic: "ofertas",
+            token: "tk_123",
+            creativeFunctionUrl: "https://example.test/generateCreative",
+            actionApiKey: "editor-key",
+        });
+
+        const sent = await notifier.notifyHotDeals([deal("B0AAAAAAA1", 92), deal("B0AAAAAAA2", 40)]);
+
+        assert.equal(sent, 1);
+        assert.equal(stub.requests.length, 1);
+
+        const [request] = stub.requests;
+        assert.equal(request.method, "POST");
+        assert.equal(request.path, "/");
+        assert.equal(request.headers["content-type"], "application/json");
+        assert.equal(request.headers.authorization, "Bearer tk_123");
+
+        const body = JSON.parse(request.body);
+        assert.equal(body.topic, "ofertas");
+        assert.equal(body.title, "🔥 Oferta quente: score 92");
+        assert.equal(body.message, "Oferta B0AAAAAAA1\nR$ 199,90 (-35%)");
+        assert.equal(body.priority, 4);
+        assert.equal(body.click, "https://www.amazon.com.br/dp/B0AAAAAAA1?tag=tag-20");
+        assert.deepEqual(body.actions, [
+            { action: "view", label: "Abrir produto", url: "https://www.amazon.com.br/dp/B0AAAAAAA1?tag=tag-20" },
+            {
+                action: "http",
+                label: "Gerar criativo",
+                url: "https://example.test/generateCreative",
+                method: "POST",
+                headers: { "Content-Type": "application/json", "X-API-Key": "editor-key" },
+                body: JSON.stringify({ asin: "B0AAAAAAA1" }),
+                clear: true,
+            },
+        ]);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("the threshold is inclusive and hot deals past the cap are summarized", async () => {
+    const stub = await startHttpStub();
+    try {
+        const notifier = createNotifier({ server: stub.url, topic: "ofertas" });
+        const max = NOTIFIER_CONFIG.MAX_HOT_DEALS_PER_RUN;
+        const deals = Array.from({ length: max + 2 }, (_, i) => deal(`B0HOT${String(i).padStart(5, "0")}`, 70 + i));
+
+        const sent = await notifier.notifyHotDeals([...deals, deal("B0COLD00001", 69)], 70);
+
+        assert.equal(sent, max);
+        assert.equal(stub.requests.length, max + 1);
+
+        const bodies = stub.requests.map((r) => JSON.parse(r.body));
+        // Highest scores first
+        assert.equal(bodies[0].title, `🔥 Oferta quente: score ${70 + max + 1}`);
+        assert.equal(bodies[max].title, "🔥 Mais ofertas quentes");
+        assert.equal(bodies[max].message, "+2 ofertas acima de 70 pontos");
+        // No token, no Authorization header
+        assert.equal(stub.requests[0].headers.authorization, undefined);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("deals without an ASIN only get the view action", async () => {
+    const stub = await startHttpStub();
+    try {
+        const notifier = createNotifier({ server: stub.url, topic: "ofertas", creativeFunctionUrl: "https://example.test/gc" });
+
+        await notifier.notifyHotDeals([deal("pelando-x", 90, { asin: null, affiliateLink: null, dealUrl: "https://www.pelando.com.br/d/x" })]);
+
+        const body = JSON.parse(stub.requests[0].body);
+        assert.deepEqual(body.actions, [{ action: "view", label: "Abrir produto", url: "https://www.pelando.com.br/d/x" }]);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("failures and empty runs are published with their priority", async () => {
+    const stub = await startHttpStub();
+    try {
+        const notifier = createNotifier({ server: stub.url, topic: "alertas" });
+
+        assert.equal(await notifier.notifyFailure("fetchProductsScheduled", new Error("boom")), true);
+        assert.equal(await notifier.notifyNoDeals("fetchProductsScheduled"), true);
+
+        const [failure, noDeals] = stub.requests.map((r) => JSON.parse(r.body));
+        assert.equal(failure.title, "🚨 fetchProductsScheduled falhou");
+        assert.equal(failure.message, "boom");
+        assert.equal(failure.priority, 5);
+        assert.equal(noDeals.title, "⚠️ fetchProductsScheduled: nenhuma oferta encontrada");
+        assert.equal(noDeals.priority, 4);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("publishing never throws: server errors and an unreachable server return false", async () => {
+    const stub = await startHttpStub(() => ({ status: 403, body: "forbidden" }));
+    const notifier = createNotifier({ server: stub.url, topic: "ofertas" });
+
+    assert.equal(await notifier.notifyFailure("x", "y"), false);
+    await stub.close();
+
+    // Server gone: connection refused
+    assert.equal(await notifier.notifyFailure("x", "y"), false);
+});
+
+test("without a topic nothing is sent", async () => {
+    const stub = await startHttpStub();
+    try {
+        const notifier = createNotifier({ server: stub.url });
+
+        assert.equal(notifier.enabled, false);
+        assert.equal(await notifier.notifyHotDeals([deal("B0AAAAAAA1", 99)]), 0);
+        assert.equal(stub.requests.length, 0);
+    } finally {
+        await stub.close();
+    }
+});
@@ -0,0 +1,210 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+    createPaapiClient,
+    createPaapiClientFromEnv,
+    discoverPaapiProducts,
+    paapiProductToDeal,
+    signRequest,
+    signV4,
+} from "../src/scraper/paapiClient";
+import { startHttpStub } from "./httpStub";
+
+// Credentials of the AWS Signature Version 4 test suite
+const ACCESS_KEY = "AKIDEXAMPLE";
+const SECRET_KEY = "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY";
+
+const item = (asin: string, title: string, price: number, extra: Record<string, unknown> = {}) => ({
+    ASIN: asin,
+    DetailPageURL: `https://www.amazon.com.br/dp/${asin}?tag=tag-20`,
+    ItemInfo: { Title: { DisplayValue: title } },
+    Images: { Primary: { Large: { URL: `https://m.media-amazon.com/images/${asin}.jpg` } } },
+    Offers: { Listings: [{ Price: { Amount: price, Savings: { Percentage: 25 } }, SavingBasis: { Amount: price / 0.75 } }] },
+    BrowseNodeInfo: { BrowseNodes: [{ DisplayName: "Fones de Ouvido" }] },
+    ...extra,
+});
+
+// ============================================================================
+// SIGV4
+// ============================================================================
+
+test("signV4 matches the AWS test suite's post-vanilla request", () => {
+    const authorization = signV4(
+        { accessKey: ACCESS_KEY, secretKey: SECRET_KEY, region: "us-east-1", service: "service" },
+        "POST",
+        "/",
+        { "host": "example.amazonaws.com", "x-amz-date": "20150830T123600Z" },
+        "",
+        "20150830T123600Z"
+    );
+
+    assert.equal(
+        authorization,
+        "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, " +
+        "SignedHeaders=host;x-amz-date, " +
+        "Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b"
+    );
+});
+
+test("a GetItems request is signed like the AWS SDK signs it", () => {
+    const payload = JSON.stringify({ ItemIds: ["B0AAAAAAA1"], ItemIdType: "ASIN" });
+
+    const headers = signRequest(
+        { accessKey: ACCESS_KEY, secretKey: SECRET_KEY, host: "webservices.amazon.com.br", region: "us-east-1" },
+        "GetItems",
+        payload,
+        new Date("2015-08-30T12:36:00Z")
+    );
+
+    assert.equal(headers["x-amz-date"], "20150830T123600Z");
+    assert.equal(headers["x-amz-target"], "com.amazon.paapi5.v1.ProductAdvertisingAPIv1.GetItems");
+    // Reference signature from @smithy/signature-v4 for the same request
+    assert.equal(
+        headers.Authorization,
+        "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/ProductAdvertisingAPI/aws4_request, " +
+        "SignedHeaders=content-encoding;content-type;host;x-amz-date;x-amz-target, " +
+        "Signature=b578de69564ee568427154428120e9bfe4df560f2670595a004acc3e4153466a"
+    );
+});
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+test("getItems signs for the endpoint's host and maps the items", async () => {
+    const stub = await startHttpStub(() => ({
+        body: {
+            ItemsResult: {
+                Items: [
+                    item("B0AAAAAAA1", "Fone de ouvido Bluetooth XYZ", 149.9),
+                    item("B0NOPRICE1", "Produto sem oferta", 0, { Offers: {} }),
+                ],
+            },
+        },
+    }));
+    try {
+        const client = createPaapiClient({ accessKey: ACCESS_KEY, secretKey: SECRET_KEY, partnerTag: "tag-20", endpoint: stub.url });
+
+        const products = await client.getItems(["B0AAAAAAA1", "B0NOPRICE1"]);
+
+        const [request] = stub.requests;
+        assert.equal(request.method, "POST");
+        assert.equal(request.path, "/paapi5/getitems");
+
+        // The host sent is the host signed, so the signature verifies
+        const host = new URL(stub.url).host;
+        assert.equal(request.headers.host, host);
+        const resigned = signRequest(
+            { accessKey: ACCESS_KEY, secretKey: SECRET_KEY, host, region: "us-east-1" },
+            "GetItems",
+            request.body,
+            new Date(String(request.headers["x-amz-date"]).replace(/^(\d{4})(\d\d)(\d\d)T(\d\d)(\d\d)(\d\d)Z$/, "$1-$2-$3T$4:$5:$6Z"))
+        );
+        assert.equal(request.headers.authorization, resigned.Authorization);
+
+        const body = JSON.parse(request.body);
+        assert.deepEqual(body.ItemIds, ["B0AAAAAAA1", "B0NOPRICE1"]);
+        assert.equal(body.PartnerTag, "tag-20");
+        assert.equal(body.PartnerType, "Associates");
+        assert.equal(body.Marketplace, "www.amazon.com.br");
+
+        assert.equal(products.length, 1);
+        assert.equal(products[0].asin, "B0AAAAAAA1");
+        assert.equal(products[0].price, 149.9);
+        assert.equal(products[0].originalPrice, 149.9 / 0.75);
+        assert.equal(products[0].discount, 25);
+        assert.equal(products[0].source, "paapi");
+        assert.ok(products[0].dealScore > 0);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("client errors are reported without retrying", async () => {
+    const stub = await startHttpStub(() => ({
+        status: 401,
+        body: { Errors: [{ Code: "InvalidSignature", Message: "The request has not been correctly signed." }] },
+    }));
+    try {
+        const client = createPaapiClient({ accessKey: ACCESS_KEY, secretKey: SECRET_KEY, partnerTag: "tag-20", endpoint: stub.url });
+
+        await assert.rejects(client.getItems(["B0AAAAAAA1"]), /PA-API GetItems failed: InvalidSignature/);
+        assert.equal(stub.requests.length, 1);
+    } finally {
+        await stub.close();
+    }
+});
+
+test("the env client needs all three credentials and honors PAAPI_ENDPOINT", async () => {
+    const keys = ["AMAZON_ACCESS_KEY", "AMAZON_SECRET_KEY", "AMAZON_PARTNER_TAG", "PAAPI_ENDPOINT"];
+    const saved = keys.map((key) => process.env[key]);
+    const stub = await startHttpStub(() => ({
+        body: {
+            SearchResult: {
+                Items: [
+                    item("B0AAAAAAA1", "Fone de ouvido Bluetooth XYZ", 149.9),
+                    item("B0BBBBBBB2", "Caixa de som portátil ABC", 299.9),
+                    item("B0CHEAP001", "Cabo USB barato demais", 9.9),
+                ],
+            },
+        },
+    }));
+    try {
+        process.env.AMAZON_ACCESS_KEY = ACCESS_KEY;
+        process.env.AMAZON_SECRET_KEY = SECRET_KEY;
+        delete process.env.AMAZON_PARTNER_TAG;
+        assert.equal(createPaapiClientFromEnv(), null);
+
+        process.env.AMAZON_PARTNER_TAG = "tag-20";
+        process.env.PAAPI_ENDPOINT = stub.url;
+        const client = createPaapiClientFromEnv();
+        assert.ok(client);
+
+        const products = await discoverPaapiProducts(client, 10, [
+            { keywords: "ofertas", searchIndex: "Electronics", category: "electronics", minSavingPercent: 10 },
+        ]);
+
+        const body = JSON.parse(stub.requests[0].body);
+        assert.equal(stub.requests[0].path, "/paapi5/searchitems");
+        assert.equal(body.Keywords, "ofertas");
+        assert.equal(body.SearchIndex, "Electronics");
+        assert.equal(body.MinSavingPercent, 10);
+
+        // Below the minimum price: filtered like scraped products
+        assert.deepEqual(products.map((p) => p.asin).sort(), ["B0AAAAAAA1", "B0BBBBBBB2"]);
+        assert.ok(products[0].dealScore >= products[1].dealScore);
+        assert.ok(products.every((p) => p.category === "electronics"));
+    } finally {
+        keys.forEach((key, i) => {
+            if (saved[i] === undefined) delete process.env[key];
+            else process.env[key] = saved[i];
+        });
+        await stub.close();
+    }
+});
+
+test("PA-API products become deals keyed by ASIN", () => {
+    const deal = paapiProductToDeal({
+        asin: "B0AAAAAAA1",
+        title: "Fone de ouvido Bluetooth XYZ",
+        price: 149.9,
+        originalPrice: 199.9,
+        discount: 25,
+        imageUrl: "https://m.media-amazon.com/images/B0AAAAAAA1.jpg",
+        productUrl: "https://www.amazon.com.br/dp/B0AAAAAAA1",
+        rating: 0,
+        reviewCount: 0,
+        category: "electronics",
+        normalizedCategory: "electronics",
+        dealScore: 61,
+        source: "paapi",
+        scrapedAt: 1,
+    });
+
+    assert.equal(deal.id, "B0AAAAAAA1");
+    assert.equal(deal.asin, "B0AAAAAAA1");
+    assert.equal(deal.amazonUrl, "https://www.amazon.com.br/dp/B0AAAAAAA1");
+    assert.equal(deal.upvotes, 0);
+    assert.equal(deal.source, "paapi");
+    assert.equal(deal.dealScore, 61);
+});
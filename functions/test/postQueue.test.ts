@@ -0,0 +1,261 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as admin from "firebase-admin";
+import { ComposedMessage } from "../src/posting/messageComposer";
+import { POST_QUEUE_CONFIG, processPostQueue, schedulePostTimes, toPostingGroup } from "../src/posting/postQueue";
+import { PostTransport } from "../src/posting/transports";
+import { FakeFirestore } from "./fakeFirestore";
+
+const MINUTE_MS = 60 * 1000;
+const at = (iso: string) => Date.parse(iso);
+const ts = (ms: number) => admin.firestore.Timestamp.fromMillis(ms);
+const millis = (value: unknown) => (value as admin.firestore.Timestamp).toMillis();
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+// Default window: 08:00-22:00 BRT = 11:00Z-01:00Z (next UTC day)
+const group = toPostingGroup("tg_main", { platform: "telegram", chatId: "-100" });
+
+test("before the window opens, posts are spread from 08:00 BRT to 22:00 BRT", () => {
+    const times = schedulePostTimes(2, group, at("2026-03-10T09:00:00Z"));   // 06:00 BRT
+
+    assert.deepEqual(times, [at("2026-03-10T11:00:00Z"), at("2026-03-10T18:00:00Z")]);
+});
+
+test("inside the window, posts start now and fill what is left of it", () => {
+    const times = schedulePostTimes(2, group, at("2026-03-10T15:00:00Z"));   // 12:00 BRT
+
+    assert.deepEqual(times, [at("2026-03-10T15:00:00Z"), at("2026-03-10T20:00:00Z")]);
+});
+
+test("after UTC midnight the BRT day is still the previous one", () => {
+    const times = schedulePostTimes(1, group, at("2026-03-11T00:30:00Z"));   // 21:30 BRT on the 10th
+
+    assert.deepEqual(times, [at("2026-03-11T00:30:00Z")]);
+});
+
+test("at or after the window end, posts go to the next day's window", () => {
+    const expected = [at("2026-03-11T11:00:00Z"), at("2026-03-11T18:00:00Z")];
+
+    assert.deepEqual(schedulePostTimes(2, group, at("2026-03-11T01:00:00Z")), expected);   // 22:00 BRT
+    assert.deepEqual(schedulePostTimes(2, group, at("2026-03-11T02:30:00Z")), expected);   // 23:30 BRT
+});
+
+test("per-group hours are honored and no posts means no times", () => {
+    const evening = toPostingGroup("wa_night", { platform: "whatsapp", startHour: 18, endHour: 23 });
+
+    assert.deepEqual(schedulePostTimes(1, evening, at("2026-03-10T12:00:00Z")), [at("2026-03-10T21:00:00Z")]);
+    assert.deepEqual(schedulePostTimes(0, group, at("2026-03-10T12:00:00Z")), []);
+});
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+const NOW = at("2026-03-10T15:00:00Z");
+
+function seedQueue(entries: Record<string, Record<string, unknown>> = {}): FakeFirestore {
+    const firestore = new FakeFirestore({
+        "groups/tg_main": { name: "Ofertas", platform: "telegram", chatId: "-100" },
+        "products/B0AAAAAAA1": { title: "Fone Bluetooth", price: 99.9, imageUrl: "https://img.test/a.jpg" },
+        "postQueue/tg_main_B0AAAAAAA1": {
+            groupId: "tg_main",
+            productId: "B0AAAAAAA1",
+            platform: "telegram",
+            status: "pending",
+            scheduledFor: ts(NOW - MINUTE_MS),
+            attempts: 0,
+        },
+        ...entries,
+    });
+    firestore.now = () => NOW;
+    return firestore;
+}
+
+interface FakeTransport extends PostTransport {
+    sent: { chatId: string; message: ComposedMessage }[];
+}
+
+function fakeTransport(send: (chatId: string) => Promise<string> = async () => "msg-1"): FakeTransport {
+    const transport: FakeTransport = {
+        platform: "telegram",
+        format: "html",
+        sent: [],
+        async send(chatId, message) {
+            transport.sent.push({ chatId, message });
+            return { messageId: await send(chatId) };
+        },
+    };
+    return transport;
+}
+
+test("a due post is sent once and the product is marked as posted to the group", async () => {
+    const firestore = seedQueue({
+        "postQueue/tg_main_B0LATER0001": {
+            groupId: "tg_main",
+            productId: "B0LATER0001",
+            status: "pending",
+            scheduledFor: ts(NOW + MINUTE_MS),
+            attempts: 0,
+        },
+    });
+    const telegram = fakeTransport();
+
+    const result = await processPostQueue(firestore.db, { telegram }, NOW);
+
+    assert.deepEqual(result, { sent: 1, failed: 0, retried: 0, released: 0 });
+    assert.equal(telegram.sent.length, 1);
+    assert.equal(telegram.sent[0].chatId, "-100");
+    assert.match(telegram.sent[0].message.text, /Fone Bluetooth/);
+
+    const entry = firestore.data("postQueue/tg_main_B0AAAAAAA1");
+    assert.equal(entry?.status, "sent");
+    assert.equal(entry?.messageId, "msg-1");
+    assert.equal(entry?.attempts, 1);
+    assert.equal(entry?.postedProductId, "B0AAAAAAA1");
+    assert.equal(entry?.lastError, null);
+
+    const product = firestore.data("products/B0AAAAAAA1");
+    assert.equal(product?.posted, true);
+    assert.deepEqual(product?.postedGroups, ["tg_main"]);
+    assert.equal(millis((product?.postedTo as Record<string, unknown>).tg_main), millis(product?.lastPostedAt));
+
+    // Not yet due
+    assert.equal(firestore.data("postQueue/tg_main_B0LATER0001")?.status, "pending");
+
+    // A second run finds nothing to send
+    assert.deepEqual(await processPostQueue(firestore.db, { telegram }, NOW), { sent: 0, failed: 0, retried: 0, released: 0 });
+    assert.equal(telegram.sent.length, 1);
+});
+
+test("a merged product is posted as the product it was merged into", async () => {
+    const firestore = seedQueue({
+        "products/pelando-fone": { title: "Fone (Pelando)", price: 99.9, mergedInto: "B0AAAAAAA1" },
+        "postQueue/tg_main_B0AAAAAAA1": {
+            groupId: "tg_main",
+            productId: "pelando-fone",
+            status: "pending",
+            scheduledFor: ts(NOW - MINUTE_MS),
+            attempts: 0,
+        },
+    });
+
+    await processPostQueue(firestore.db, { telegram: fakeTransport() }, NOW);
+
+    assert.equal(firestore.data("postQueue/tg_main_B0AAAAAAA1")?.postedProductId, "B0AAAAAAA1");
+    assert.equal(firestore.data("products/B0AAAAAAA1")?.posted, true);
+    assert.equal(firestore.data("products/pelando-fone")?.posted, undefined);
+});
+
+test("transport failures are retried with a growing delay, then the post fails", async () => {
+    const firestore = seedQueue();
+    const telegram = fakeTransport(async () => {
+        throw new Error("Telegram send failed: HTTP 502");
+    });
+    const entry = () => firestore.data("postQueue/tg_main_B0AAAAAAA1");
+
+    let now = NOW;
+    for (let attempt = 1; attempt < POST_QUEUE_CONFIG.MAX_ATTEMPTS; attempt++) {
+        const result = await processPostQueue(firestore.db, { telegram }, now);
+
+        assert.deepEqual(result, { sent: 0, failed: 0, retried: 1, released: 0 });
+        assert.equal(entry()?.status, "pending");
+        assert.equal(entry()?.attempts, attempt);
+        assert.equal(entry()?.lastError, "Telegram send failed: HTTP 502");
+        assert.equal(millis(entry()?.scheduledFor), now + POST_QUEUE_CONFIG.RETRY_DELAY_MS * attempt);
+
+        // Not due again before the delay
+        assert.equal((await processPostQueue(firestore.db, { telegram }, now + 1)).retried, 0);
+        now = millis(entry()?.scheduledFor);
+    }
+
+    const result = await processPostQueue(firestore.db, { telegram }, now);
+
+    assert.deepEqual(result, { sent: 0, failed: 1, retried: 0, released: 0 });
+    assert.equal(entry()?.status, "failed");
+    assert.equal(entry()?.attempts, POST_QUEUE_CONFIG.MAX_ATTEMPTS);
+    assert.equal(telegram.sent.length, POST_QUEUE_CONFIG.MAX_ATTEMPTS);
+});
+
+test("a missing group or transport fails the post without retrying", async () => {
+    const firestore = seedQueue({
+        "groups/wa_main": { name: "WhatsApp", platform: "whatsapp", chatId: "5511" },
+        "postQueue/wa_main_B0AAAAAAA1": {
+            groupId: "wa_main",
+            productId: "B0AAAAAAA1",
+            status: "pending",
+            scheduledFor: ts(NOW - MINUTE_MS),
+            attempts: 0,
+        },
+        "postQueue/gone_B0AAAAAAA1": {
+            groupId: "gone",
+            productId: "B0AAAAAAA1",
+            status: "pending",
+            scheduledFor: ts(NOW - MINUTE_MS),
+            attempts: 0,
+        },
+    });
+
+    const result = await processPostQueue(firestore.db, { telegram: fakeTransport() }, NOW);
+
+    assert.deepEqual(result, { sent: 1, failed: 2, retried: 0, released: 0 });
+    assert.equal(firestore.data("postQueue/wa_main_B0AAAAAAA1")?.status, "failed");
+    assert.equal(firestore.data("postQueue/wa_main_B0AAAAAAA1")?.lastError, "No transport configured for whatsapp");
+    assert.equal(firestore.data("postQueue/gone_B0AAAAAAA1")?.status, "failed");
+    assert.equal(firestore.data("postQueue/gone_B0AAAAAAA1")?.lastError, "Group gone not found");
+});
+
+test("a failure after the transport accepted the post keeps it sent and is never retried", async () => {
+    const firestore = seedQueue();
+    // The product disappears mid-send, so marking it as posted fails
+    const telegram = fakeTransport(async () => {
+        firestore.docs.delete("products/B0AAAAAAA1");
+        return "msg-9";
+    });
+
+    const result = await processPostQueue(firestore.db, { telegram }, NOW);
+
+    assert.deepEqual(result, { sent: 1, failed: 0, retried: 0, released: 0 });
+    const entry = firestore.data("postQueue/tg_main_B0AAAAAAA1");
+    assert.equal(entry?.status, "sent");
+    assert.equal(entry?.messageId, "msg-9");
+    assert.match(String(entry?.lastError), /^Posted, but: NOT_FOUND/);
+
+    await processPostQueue(firestore.db, { telegram }, NOW + POST_QUEUE_CONFIG.RETRY_DELAY_MS);
+    assert.equal(telegram.sent.length, 1);
+});
+
+test("interrupted sends are failed once the send started, released otherwise", async () => {
+    const stale = ts(NOW - POST_QUEUE_CONFIG.STALE_CLAIM_MS);
+    const sending = (attempts: number, sendStartedAt: admin.firestore.Timestamp | null) => ({
+        groupId: "tg_main",
+        productId: "B0AAAAAAA1",
+        status: "sending",
+        scheduledFor: ts(NOW - 2 * POST_QUEUE_CONFIG.STALE_CLAIM_MS),
+        claimedAt: stale,
+        sendStartedAt,
+        attempts,
+    });
+    const firestore = seedQueue({
+        "postQueue/tg_main_B0AAAAAAA1": sending(1, null),
+        "postQueue/tg_main_B0STARTED01": sending(1, stale),
+        "postQueue/tg_main_B0EXHAUSTED": sending(POST_QUEUE_CONFIG.MAX_ATTEMPTS, null),
+        "postQueue/tg_main_B0RECENT001": { ...sending(1, null), claimedAt: ts(NOW - MINUTE_MS) },
+    });
+    const telegram = fakeTransport();
+
+    const result = await processPostQueue(firestore.db, { telegram }, NOW);
+
+    // The released entry is due right away and goes out in the same run
+    assert.deepEqual(result, { sent: 1, failed: 2, retried: 0, released: 1 });
+    assert.equal(telegram.sent.length, 1);
+    assert.equal(firestore.data("postQueue/tg_main_B0AAAAAAA1")?.status, "sent");
+    assert.equal(firestore.data("postQueue/tg_main_B0AAAAAAA1")?.attempts, 2);
+    assert.equal(firestore.data("postQueue/tg_main_B0STARTED01")?.status, "failed");
+    assert.equal(firestore.data("postQueue/tg_main_B0EXHAUSTED")?.status, "failed");
+    assert.equal(firestore.data("postQueue/tg_main_B0EXHAUSTED")?.lastError, "Delivery interrupted");
+    // Claimed recently: may still be sending
+    assert.equal(firestore.data("postQueue/tg_main_B0RECENT001")?.status, "sending");
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { computePriceStats, PRICE_HISTORY_CONFIG, PricePoint } from "../src/priceHistory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const point = (price: number, daysAgo: number): PricePoint => ({ price, observedAt: NOW - daysAgo * DAY_MS });
+
+test("first observation with no history", () => {
+    assert.deepEqual(computePriceStats([], {}, point(199.9, 0)), {
+        lowestPrice: 199.9,
+        highestPrice: 199.9,
+        lowest30d: 199.9,
+        highest30d: 199.9,
+        priceObservations: 1,
+        previousPrice: null,
+        isHistoricalLow: false,
+    });
+});
+
+test("window bounds only use observations inside the window", () => {
+    const days = PRICE_HISTORY_CONFIG.WINDOW_DAYS;
+    const recent = [
+        point(90, days + 1),    // Outside the window
+        point(150, days),       // Exactly on the cutoff
+        point(120, 3),
+        point(0, 1),            // No price: ignored
+    ];
+
+    const stats = computePriceStats(recent, { lowestPrice: 90, highestPrice: 200, priceObservations: 4, price: 120 }, point(130, 0));
+
+    assert.equal(stats.lowest30d, 120);
+    assert.equal(stats.highest30d, 150);
+    // All-time bounds come from the stored summary
+    assert.equal(stats.lowestPrice, 90);
+    assert.equal(stats.highestPrice, 200);
+    assert.equal(stats.priceObservations, 5);
+    assert.equal(stats.previousPrice, 120);
+});
+
+test("a new all-time low is flagged once there is enough history", () => {
+    const previous = { lowestPrice: 100, highestPrice: 150, priceObservations: PRICE_HISTORY_CONFIG.MIN_OBSERVATIONS_FOR_LOW };
+
+    const stats = computePriceStats([point(100, 2)], previous, point(95, 0));
+
+    assert.equal(stats.lowestPrice, 95);
+    assert.equal(stats.isHistoricalLow, true);
+});
+
+test("matching the low within the tolerance still counts", () => {
+    const previous = { lowestPrice: 100, highestPrice: 150, priceObservations: 5 };
+    const tolerance = 100 * (1 + PRICE_HISTORY_CONFIG.LOW_TOLERANCE);
+
+    assert.equal(computePriceStats([], previous, point(tolerance, 0)).isHistoricalLow, true);
+    assert.equal(computePriceStats([], previous, point(tolerance + 0.5, 0)).isHistoricalLow, false);
+});
+
+test("no historical low without enough observations or price movement", () => {
+    const fewObservations = { lowestPrice: 100, highestPrice: 150, priceObservations: PRICE_HISTORY_CONFIG.MIN_OBSERVATIONS_FOR_LOW - 1 };
+    assert.equal(computePriceStats([], fewObservations, point(90, 0)).isHistoricalLow, false);
+
+    // Always sold at the same price: nothing to celebrate
+    const flat = { lowestPrice: 100, highestPrice: 100, priceObservations: 10 };
+    assert.equal(computePriceStats([], flat, point(100, 0)).isHistoricalLow, false);
+});
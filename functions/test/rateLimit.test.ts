@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { clientIp, hashClientIp } from "../src/rateLimit";
+
+const request = (forwardedFor: string | undefined, ip = "10.0.0.1") =>
+    ({ headers: forwardedFor === undefined ? {} : { "x-forwarded-for": forwardedFor }, ip }) as Parameters<typeof clientIp>[0];
+
+// Hosting's CDN appends the visitor, Google's front end appends the CDN
+const HOSTING_HOP = "199.36.158.100";
+
+test("client IP through Hosting is the visitor, not the Hosting proxy", () => {
+    assert.equal(clientIp(request(`203.0.113.7, ${HOSTING_HOP}`)), "203.0.113.7");
+    assert.equal(clientIp(request(`198.51.100.9, ${HOSTING_HOP}`)), "198.51.100.9");
+});
+
+test("visitors behind the same Hosting proxy get distinct hashes", () => {
+    assert.notEqual(
+        hashClientIp(request(`203.0.113.7, ${HOSTING_HOP}`)),
+        hashClientIp(request(`198.51.100.9, ${HOSTING_HOP}`))
+    );
+});
+
+test("a forged X-Forwarded-For prefix does not change the client", () => {
+    const real = hashClientIp(request(`203.0.113.7, ${HOSTING_HOP}`));
+    assert.equal(hashClientIp(request(`1.2.3.4, 203.0.113.7, ${HOSTING_HOP}`)), real);
+    assert.equal(hashClientIp(request(`5.6.7.8, 9.9.9.9, 203.0.113.7, ${HOSTING_HOP}`)), real);
+});
+
+test("a direct call to the function URL uses its only entry", () => {
+    assert.equal(clientIp(request("203.0.113.7")), "203.0.113.7");
+});
+
+test("falls back to req.ip without X-Forwarded-For", () => {
+    assert.equal(clientIp(request(undefined)), "10.0.0.1");
+    assert.equal(clientIp(request(" , ")), "10.0.0.1");
+});
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as admin from "firebase-admin";
+import {
+    conversionReport,
+    countriesReport,
+    hoursReport,
+    parseReportRange,
+    topProductsReport,
+} from "../src/analytics/reports";
+import { FakeFirestore } from "./fakeFirestore";
+
+const at = (iso: string) => admin.firestore.Timestamp.fromMillis(Date.parse(iso));
+
+const groupRollup = (day: string, groupId: string, shard: number, breakdown: {
+    byCountry: Record<string, number>;
+    byHour: Record<string, number>;
+    byProduct: Record<string, number>;
+}) => ({
+    [`clickRollups/${day}_group_${groupId}_${shard}`]: {
+        dimension: "group",
+        day,
+        key: groupId,
+        clicks: Object.values(breakdown.byProduct).reduce((a, b) => a + b, 0),
+        ...breakdown,
+    },
+});
+
+const firestore = new FakeFirestore({
+    "products/B0AAAAAAA1": { title: "Fone Bluetooth" },
+    "products/B0AAAAAAA2": { title: "Airfryer 4L" },
+    // Product rollups hold every group's clicks
+    "clickRollups/2026-03-01_product_B0AAAAAAA1_0": { dimension: "product", day: "2026-03-01", key: "B0AAAAAAA1", clicks: 5 },
+    "clickRollups/2026-03-01_product_B0AAAAAAA2_0": { dimension: "product", day: "2026-03-01", key: "B0AAAAAAA2", clicks: 2 },
+    // Group rollups, split over shards
+    ...groupRollup("2026-03-01", "telegram", 0, {
+        byCountry: { BR: 3 },
+        byHour: { "12": 2, "21": 1 },
+        byProduct: { B0AAAAAAA1: 3 },
+    }),
+    ...groupRollup("2026-03-01", "whatsapp", 2, {
+        byCountry: { BR: 1, PT: 1 },
+        byHour: { "12": 1, "13": 1 },
+        byProduct: { B0AAAAAAA1: 1, B0AAAAAAA2: 1 },
+    }),
+    ...groupRollup("2026-03-01", "whatsapp", 5, {
+        byCountry: { BR: 1 },
+        byHour: { "13": 1 },
+        byProduct: { B0AAAAAAA2: 1 },
+    }),
+    // Next day, outside single-day ranges
+    ...groupRollup("2026-03-02", "whatsapp", 0, {
+        byCountry: { US: 4 },
+        byHour: { "09": 4 },
+        byProduct: { B0AAAAAAA1: 4 },
+    }),
+    "postQueue/telegram_B0AAAAAAA1": { groupId: "telegram", productId: "B0AAAAAAA1", status: "sent", sentAt: at("2026-03-01T14:00:00Z") },
+    "postQueue/telegram_B0AAAAAAA2": { groupId: "telegram", productId: "B0AAAAAAA2", status: "sent", sentAt: at("2026-03-01T18:00:00Z") },
+    // Clicks from the day before the post do not count
+    "postQueue/whatsapp_B0AAAAAAA2": { groupId: "whatsapp", productId: "B0AAAAAAA2", status: "sent", sentAt: at("2026-03-02T12:00:00Z") },
+    "postQueue/whatsapp_B0AAAAAAA1": { groupId: "whatsapp", productId: "B0AAAAAAA1", status: "failed" },
+});
+const db = firestore.db;
+
+const NOW = Date.parse("2026-03-03T12:00:00Z");
+const day = (groupId?: string) => parseReportRange({ from: "2026-03-01", to: "2026-03-01", groupId }, NOW);
+
+test("top products come from the product rollups without a group filter", async () => {
+    const report = await topProductsReport(db, day());
+
+    assert.deepEqual(report.map((p) => [p.productId, p.clicks, p.title]), [
+        ["B0AAAAAAA1", 5, "Fone Bluetooth"],
+        ["B0AAAAAAA2", 2, "Airfryer 4L"],
+    ]);
+});
+
+test("top products of a group come from its rollups' product breakdown", async () => {
+    const report = await topProductsReport(db, day("whatsapp"));
+
+    assert.deepEqual(report.map((p) => [p.productId, p.clicks, p.title]), [
+        ["B0AAAAAAA2", 2, "Airfryer 4L"],
+        ["B0AAAAAAA1", 1, "Fone Bluetooth"],
+    ]);
+});
+
+test("countries add up every group's shards, or only the filtered group's", async () => {
+    assert.deepEqual(await countriesReport(db, day()), [
+        { country: "BR", clicks: 5 },
+        { country: "PT", clicks: 1 },
+    ]);
+    assert.deepEqual(await countriesReport(db, day("telegram")), [{ country: "BR", clicks: 3 }]);
+});
+
+test("hours report all 24 BRT hours", async () => {
+    const report = await hoursReport(db, day());
+
+    assert.equal(report.length, 24);
+    assert.deepEqual(report.filter((h) => h.clicks > 0), [
+        { hour: 12, clicks: 3 },
+        { hour: 13, clicks: 2 },
+        { hour: 21, clicks: 1 },
+    ]);
+    assert.equal((await hoursReport(db, day("whatsapp")))[12].clicks, 1);
+});
+
+test("conversion counts a post's group clicks from the day it was sent", async () => {
+    const range = parseReportRange({ from: "2026-03-01", to: "2026-03-02" }, NOW);
+
+    assert.deepEqual(await conversionReport(db, range), [
+        { groupId: "telegram", posts: 2, clickedPosts: 1, clicks: 3, conversionRate: 0.5, clicksPerPost: 1.5 },
+        { groupId: "whatsapp", posts: 1, clickedPosts: 0, clicks: 0, conversionRate: 0, clicksPerPost: 0 },
+    ]);
+});
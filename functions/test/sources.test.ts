@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { FIXTURES_DIR } from "./helpers";
+import { pelandoSource, promobitSource } from "../src/scraper/sources";
+import { DealSource, NormalizedDeal } from "../src/scraper/dealSource";
+
+const SCRAPED_AT = Date.parse("2026-03-01T12:00:00Z");
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, "sources", name), "utf8");
+}
+
+/** Fetch the saved page through the adapter, then parse and normalize it */
+async function scrapeFixture<T>(source: DealSource<T>, fixture: string) {
+    const requested: string[] = [];
+    const payloads = await source.fetch({
+        get: async (url) => {
+            requested.push(url);
+            return readFixture(fixture);
+        },
+    });
+
+    const deals = payloads
+        .flatMap((payload) => source.parse(payload))
+        .map((raw) => source.normalize(raw, SCRAPED_AT))
+        .filter((deal): deal is NormalizedDeal => deal !== null);
+
+    return { requested, deals };
+}
+
+test("pelando: parses Amazon deal cards from the search page", async () => {
+    const { requested, deals } = await scrapeFixture(pelandoSource, "pelando-search.html");
+
+    assert.deepEqual(requested, ["https://www.pelando.com.br/search?q=amazon"]);
+    // Non-Amazon, repeated and too-short cards are skipped
+    assert.deepEqual(deals, [
+        {
+            id: "B0C1234567",
+            title: "Fone de Ouvido Bluetooth JBL Tune 520BT",
+            price: 199.9,
+            originalPrice: 349.9,
+            discount: 43,
+            dealUrl: "https://www.pelando.com.br/d/fone-de-ouvido-jbl-tune-520bt-a1b2c3",
+            amazonUrl: "https://www.amazon.com.br/dp/B0C1234567?tag=pelando-20&th=1",
+            asin: "B0C1234567",
+            imageUrl: "https://m.media-amazon.com/images/I/61kWB+uzR2L._AC_SL1500_.jpg",
+            upvotes: 152,
+            category: "Eletrônicos",
+            normalizedCategory: "electronics",
+            source: "Pelando",
+            scrapedAt: SCRAPED_AT,
+        },
+        {
+            // Short link: no ASIN until asinEnrichment resolves it
+            id: "pelando-cafeteiraexpressoost-879",
+            title: "Cafeteira Expresso Oster 15 Bar",
+            price: 879,
+            originalPrice: 1099,
+            discount: 20,
+            dealUrl: "https://www.pelando.com.br/d/cafeteira-expresso-oster-d4e5f6",
+            amazonUrl: "https://amzn.to/3xYzAbC",
+            asin: undefined,
+            imageUrl: "https://m.media-amazon.com/images/I/51Cafeteira._AC_SL1000_.jpg",
+            upvotes: 37,
+            category: "Casa e Cozinha",
+            normalizedCategory: "home",
+            source: "Pelando",
+            scrapedAt: SCRAPED_AT,
+        },
+    ]);
+});
+
+test("promobit: parses Amazon offer cards from the store page", async () => {
+    const { requested, deals } = await scrapeFixture(promobitSource, "promobit-amazon.html");
+
+    assert.deepEqual(requested, ["https://www.promobit.com.br/promocoes/loja/amazon"]);
+    assert.deepEqual(deals, [
+        {
+            id: "B0D7654321",
+            title: "Fritadeira Airfryer Mondial 4L Family",
+            price: 299,
+            originalPrice: 499,
+            discount: 40,
+            dealUrl: "https://www.promobit.com.br/oferta/fritadeira-airfryer-mondial-4l-2214501",
+            amazonUrl: "https://www.amazon.com.br/Fritadeira-Mondial/dp/B0D7654321/ref=sr_1_1",
+            asin: "B0D7654321",
+            imageUrl: "https://m.media-amazon.com/images/I/71Airfryer._AC_SL1500_.jpg",
+            upvotes: 88,
+            category: "Eletrodomésticos",
+            normalizedCategory: "home",
+            source: "Promobit",
+            scrapedAt: SCRAPED_AT,
+        },
+        {
+            // Discount derived from the prices, category defaulted
+            id: "B0WHEY0001",
+            title: "Whey Protein Concentrado 900g Baunilha",
+            price: 119.9,
+            originalPrice: 159.9,
+            discount: 25,
+            dealUrl: "https://www.promobit.com.br/oferta/whey-protein-concentrado-2214502",
+            amazonUrl: "https://www.amazon.com.br/gp/product/B0WHEY0001?smid=A1ZZFT5FULY4LN",
+            asin: "B0WHEY0001",
+            imageUrl: "https://m.media-amazon.com/images/I/61Whey._AC_SL1000_.jpg",
+            upvotes: 21,
+            category: "Geral",
+            normalizedCategory: "sports",
+            source: "Promobit",
+            scrapedAt: SCRAPED_AT,
+        },
+    ]);
+});
+
+test("sources yield no payload when the page cannot be fetched", async () => {
+    for (const source of [pelandoSource, promobitSource]) {
+        assert.deepEqual(await source.fetch({ get: async () => null }), []);
+    }
+});
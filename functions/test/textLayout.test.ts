@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { cleanProductTitle } from "../src/creative/textLayout";
+
+test("keeps attribute words that are part of the product name", () => {
+    const titles = [
+        "Ração Golden Sabor Frango para Cães Adultos Porte Médio 15kg",
+        "Smartphone Samsung Galaxy A15 Modelo 2024 128GB 4GB RAM Câmera Tripla 50MP",
+        "Cafeteira Elétrica Estilo Retrô Vermelha 127V",
+    ];
+
+    for (const title of titles) assert.equal(cleanProductTitle(title), title);
+});
+
+test("strips colon attributes, including several in a row", () => {
+    assert.equal(cleanProductTitle("Camiseta Básica Masculina Algodão Cor: Preto"), "Camiseta Básica Masculina Algodão");
+    assert.equal(cleanProductTitle("Camiseta Básica Masculina Algodão, Cor: Preto, Tamanho: G"), "Camiseta Básica Masculina Algodão");
+    assert.equal(cleanProductTitle("Ração Golden para Cães Adultos - Sabor: Frango e Arroz"), "Ração Golden para Cães Adultos");
+});
+
+test("strips short attributes after a separator", () => {
+    assert.equal(cleanProductTitle("Fone de Ouvido Bluetooth JBL Tune 520BT - Cor Preto"), "Fone de Ouvido Bluetooth JBL Tune 520BT");
+    assert.equal(cleanProductTitle("Tênis Esportivo Corrida Masculino | Tamanho 42"), "Tênis Esportivo Corrida Masculino");
+    assert.equal(cleanProductTitle("Panela de Pressão Elétrica 5L, Voltagem 127V"), "Panela de Pressão Elétrica 5L");
+});
+
+test("keeps long values after a separator without a colon", () => {
+    const title = "Ração Golden para Cães, Sabor Frango com Arroz para Cães Adultos 15kg";
+    assert.equal(cleanProductTitle(title), title);
+});
+
+test("strips parenthesized attributes", () => {
+    assert.equal(cleanProductTitle("Garrafa Térmica Inox 500ml (Cor Azul)"), "Garrafa Térmica Inox 500ml");
+    assert.equal(cleanProductTitle("Garrafa Térmica Inox 500ml (Cor: Azul Marinho)"), "Garrafa Térmica Inox 500ml");
+});
+
+test("removes model codes and a repeated brand", () => {
+    assert.equal(
+        cleanProductTitle("Samsung Smartphone Samsung Galaxy A15 SM-A155MZKPZTO 128GB"),
+        "Samsung Smartphone Galaxy A15 128GB"
+    );
+});
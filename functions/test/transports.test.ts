@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ComposedMessage } from "../src/posting/messageComposer";
+import { createTelegramTransport, createWhatsAppTransport } from "../src/posting/transports";
+import { startHttpStub } from "./httpStub";
+
+const withImage: ComposedMessage = {
+    text: "🔥 <b>Fone</b>\n\n💰 Por <b>R$ 99,90</b>",
+    link: "https://site.test/go/B0AAAAAAA1?utm_source=tg_main",
+    imageUrl: "https://cdn.test/creative.png",
+};
+const textOnly: ComposedMessage = { ...withImage, imageUrl: null };
+
+// ============================================================================
+// TELEGRAM
+// ============================================================================
+
+test("telegram sends a photo with the caption when the message has an image", async () => {
+    const stub = await startHttpStub(() => ({ body: { ok: true, result: { message_id: 321 } } }));
+    try {
+        const transport = createTelegramTransport({ botToken: "123:abc", apiBase: `${stub.url}/` });
+
+        const result = await transport.send("-100200", withImage);
+
+        assert.equal(result.messageId, "321");
+        assert.equal(stub.requests.length, 1);
+        assert.equal(stub.requests[0].method, "POST");
+        assert.equal(stub.requests[0].path, "/bot123:abc/sendPhoto");
+        assert.deepEqual(JSON.parse(stub.requests[0].body), {
+            chat_id: "-100200",
+            photo: "https://cdn.test/creative.png",
+            caption: withImage.text,
+            parse_mode: "HTML",
+        });
+    } finally {
+        await stub.close();
+    }
+});
+
+test("telegram sends a text message when there is no image", async () => {
+    const stub = await startHttpStub(() => ({ body: { ok: true, result: { message_id: 7 } } }));
+    try {
+        const transport = createTelegramTransport({ botToken: "123:abc", apiBase: stub.url });
+
+        await transport.send("-100200", textOnly);
+
+        assert.equal(stub.requests[0].path, "/bot123:abc/sendMessage");
+        assert.deepEqual(JSON.parse(stub.requests[0].body), {
+            chat_id: "-100200",
+            text: textOnly.text,
+            parse_mode: "HTML",
+        });
+    } finally {
+        await stub.close();
+    }
+});
+
+test("telegram errors carry the API description, or the HTTP status without one", async () => {
+    const stub = await startHttpStub(() => ({
+        status: 400,
+        body: { ok: false, description: "Bad Request: chat not found" },
+    }));
+    try {
+        const transport = createTelegramTransport({ botToken: "123:abc", apiBase: stub.url });
+
+        await assert.rejects(transport.send("-1", textOnly), /Telegram send failed: Bad Request: chat not found/);
+
+        stub.respond = () => ({ status: 502, body: "Bad Gateway" });
+        await assert.rejects(transport.send("-1", textOnly), /Telegram send failed: HTTP 502/);
+    } finally {
+        await stub.close();
+    }
+});
+
+// ============================================================================
+// WHATSAPP
+// ============================================================================
+
+test("whatsapp posts an image message with the bearer token to the phone number", async () => {
+    const stub = await startHttpStub(() => ({ body: { messages: [{ id: "wamid.XYZ" }] } }));
+    try {
+        const transport = createWhatsAppTransport({
+            accessToken: "wa-token",
+            phoneNumberId: "555000",
+            apiBase: stub.url,
+            apiVersion: "v20.0",
+        });
+
+        const result = await transport.send("5511999990000", withImage);
+
+        assert.equal(result.messageId, "wamid.XYZ");
+        const [request] = stub.requests;
+        assert.equal(request.path, "/v20.0/555000/messages");
+        assert.equal(request.headers.authorization, "Bearer wa-token");
+        assert.equal(request.headers["content-type"], "application/json");
+        assert.deepEqual(JSON.parse(request.body), {
+            messaging_product: "whatsapp",
+            to: "5511999990000",
+            type: "image",
+            image: { link: "https://cdn.test/creative.png", caption: withImage.text },
+        });
+    } finally {
+        await stub.close();
+    }
+});
+
+test("whatsapp sends text with link preview when there is no image", async () => {
+    const stub = await startHttpStub(() => ({ body: { messages: [{ id: "wamid.T" }] } }));
+    try {
+        const transport = createWhatsAppTransport({ accessToken: "wa-token", phoneNumberId: "555000", apiBase: stub.url });
+
+        await transport.send("5511999990000", textOnly);
+
+        assert.match(stub.requests[0].path, /^\/v\d+\.\d+\/555000\/messages$/);
+        assert.deepEqual(JSON.parse(stub.requests[0].body), {
+            messaging_product: "whatsapp",
+            to: "5511999990000",
+            type: "text",
+            text: { body: textOnly.text, preview_url: true },
+        });
+    } finally {
+        await stub.close();
+    }
+});
+
+test("whatsapp fails on an HTTP error or a response without a message id", async () => {
+    const stub = await startHttpStub(() => ({
+        status: 401,
+        body: { error: { message: "Invalid OAuth access token" } },
+    }));
+    try {
+        const transport = createWhatsAppTransport({ accessToken: "bad", phoneNumberId: "555000", apiBase: stub.url });
+
+        await assert.rejects(transport.send("55", textOnly), /WhatsApp send failed: Invalid OAuth access token/);
+
+        stub.respond = () => ({ body: { messages: [] } });
+        await assert.rejects(transport.send("55", textOnly), /WhatsApp send failed: HTTP 200/);
+    } finally {
+        await stub.close();
+    }
+});
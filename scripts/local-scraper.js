@@ -14,6 +14,7 @@
  * REQUIREMENTS:
  *   npm install playwright @playwright/test
  *   npx playwright install chromium
+ *   cd ../functions && npm run build   (shared scoring and price history)
  *
  * This script will:
  * 1. Open a headless browser
@@ -61,6 +62,9 @@ exports.uploadToFirebase = uploadToFirebase;
 const playwright_1 = require("playwright");
 const admin = __importStar(require("firebase-admin"));
 const path = __importStar(require("path"));
+// Compiled from functions/src: the Cloud Functions' scoring and price history engine
+const dealScoring_1 = require("../functions/lib/dealScoring");
+const priceHistory_1 = require("../functions/lib/priceHistory");
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -76,12 +80,8 @@ const CONFIG = {
     DELAY_BETWEEN_PAGES_MAX_MS: 25000, // 25 seconds maximum between pages
     SCROLL_DELAY_MS: 3000, // 3 seconds to "read" after scrolling
     PAGE_LOAD_TIMEOUT_MS: 30000,
-    // Quality Filters
-    MIN_PRICE: 25,
-    MAX_PRICE: 2500,
-    MIN_RATING: 3.0,
-    MIN_REVIEWS: 10,
-    MIN_DISCOUNT: 10,
+    // Quality filters and score weights are read from settings/scoring
+    // (amazon profile) and settings/ctrWeights, as in functions/src/dealScoring.ts
 };
 // URLs to scrape
 const SCRAPE_URLS = [
@@ -113,36 +113,27 @@ function normalizeCategory(text) {
     }
     return 'other';
 }
-function calculateDealScore(product) {
-    const discount = product.discount || 0;
-    const rating = product.rating || 0;
-    const reviews = product.reviewCount || 0;
-    const category = product.normalizedCategory || 'other';
-    const discountScore = Math.min((discount / 40) * 100, 100);
-    const ratingScore = Math.max(((rating - 3) / 2) * 100, 0);
-    const reviewScore = Math.min((Math.log10(Math.max(reviews, 1)) / Math.log10(5000)) * 100, 100);
-    const categoryWeights = {
-        electronics: 100, home: 80, sports: 75, toys: 70, other: 50
-    };
-    const categoryScore = categoryWeights[category] || 50;
-    const sourceBonus = product.source === 'deals' ? 10 : 0;
-    return Math.round(discountScore * 0.30 +
-        ratingScore * 0.25 +
-        reviewScore * 0.20 +
-        categoryScore * 0.15 +
-        sourceBonus);
+/**
+ * Score with the shared engine (local scraper has no upvotes signal)
+ */
+function applyDealScore(product, settings) {
+    product.scoreBreakdown = (0, dealScoring_1.scoreDeal)(product, settings.amazon, settings.version, settings.ctr);
+    product.dealScore = product.scoreBreakdown.total;
 }
-function filterQualityProducts(products) {
+function filterQualityProducts(products, profile) {
+    const { thresholds } = profile;
     return products.filter(p => {
         if (!p.asin || p.asin.length !== 10)
             return false;
         if (!p.title || p.title.length < 10)
             return false;
-        if (p.price < CONFIG.MIN_PRICE || p.price > CONFIG.MAX_PRICE)
+        if (p.price < thresholds.minPrice || p.price > thresholds.maxPrice)
             return false;
-        if (p.rating > 0 && p.rating < CONFIG.MIN_RATING)
+        if (p.rating > 0 && p.rating < thresholds.minRating)
             return false;
-        if (p.reviewCount > 0 && p.reviewCount < CONFIG.MIN_REVIEWS)
+        if (p.reviewCount > 0 && p.reviewCount < thresholds.minReviews)
+            return false;
+        if (p.discount < thresholds.minDiscount)
             return false;
         return true;
     });
@@ -265,11 +256,8 @@ async function scrapeProductsFromPage(page, category, source) {
         category,
         normalizedCategory: normalizeCategory(p.title),
         source,
-        dealScore: 0,
+        dealScore: 0, // Scored in main() once settings are loaded
         scrapedAt: now,
-    })).map(p => ({
-        ...p,
-        dealScore: calculateDealScore(p),
     }));
 }
 async function scrapeAmazon(browser) {
@@ -314,23 +302,68 @@ async function scrapeAmazon(browser) {
 // ============================================================================
 // FIREBASE UPLOAD
 // ============================================================================
-async function uploadToFirebase(products) {
-    // Initialize Firebase
+function initFirebase() {
+    if (admin.apps.length)
+        return;
     const serviceAccountPath = path.resolve(CONFIG.FIREBASE_SERVICE_ACCOUNT);
     try {
         const serviceAccount = require(serviceAccountPath);
-        if (!admin.apps.length) {
-            admin.initializeApp({
-                credential: admin.credential.cert(serviceAccount),
-                projectId: CONFIG.FIREBASE_PROJECT_ID,
-            });
-        }
+        admin.initializeApp({
+            credential: admin.credential.cert(serviceAccount),
+            projectId: CONFIG.FIREBASE_PROJECT_ID,
+        });
     }
     catch (error) {
         console.error('❌ Failed to load service account. Make sure service-account.json exists.');
         console.error('   Download it from Firebase Console > Project Settings > Service Accounts');
         throw error;
     }
+}
+/**
+ * Read settings/scoring and settings/ctrWeights, merged over the shared
+ * defaults (same as loadScoringSettings() in the Cloud Functions)
+ */
+async function loadScoringSettings() {
+    initFirebase();
+    let scoringData;
+    let ctrData;
+    try {
+        const settings = admin.firestore().collection('settings');
+        const [scoringDoc, ctrDoc] = await Promise.all([settings.doc('scoring').get(), settings.doc('ctrWeights').get()]);
+        scoringData = scoringDoc.data();
+        ctrData = ctrDoc.data();
+    }
+    catch (error) {
+        console.warn('⚠️ Failed to load scoring settings, using defaults:', error);
+    }
+    return (0, dealScoring_1.resolveScoringSettings)(scoringData, ctrData);
+}
+/**
+ * Queue a price history entry and return the summary fields for the product,
+ * computed by the shared price history engine (same fields as the Cloud
+ * Function fetch writes)
+ */
+async function recordPriceObservation(batch, docRef, existing, product) {
+    if (!product.price || product.price <= 0)
+        return {};
+    const now = Date.now();
+    let recent = [];
+    if (existing) {
+        const since = admin.firestore.Timestamp.fromMillis(now - priceHistory_1.PRICE_HISTORY_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const history = await docRef.collection('priceHistory').where('observedAt', '>=', since).get();
+        recent = history.docs.map(d => ({ price: d.get('price'), observedAt: d.get('observedAt').toMillis() }));
+    }
+    batch.set(docRef.collection('priceHistory').doc(), {
+        price: product.price,
+        originalPrice: product.originalPrice || null,
+        discount: product.discount,
+        source: `local-${product.source}`,
+        observedAt: admin.firestore.Timestamp.fromMillis(now),
+    });
+    return (0, priceHistory_1.computePriceStats)(recent, existing || {}, { price: product.price, observedAt: now });
+}
+async function uploadToFirebase(products) {
+    initFirebase();
     const db = admin.firestore();
     const batch = db.batch();
     let newCount = 0;
@@ -338,6 +371,7 @@ async function uploadToFirebase(products) {
     for (const product of products) {
         const docRef = db.collection('products').doc(product.asin);
         const existing = await docRef.get();
+        const priceStats = await recordPriceObservation(batch, docRef, existing.data(), product);
         const productData = {
             asin: product.asin,
             title: product.title,
@@ -350,6 +384,7 @@ async function uploadToFirebase(products) {
             rating: product.rating,
             reviewCount: product.reviewCount,
             dealScore: product.dealScore,
+            scoreBreakdown: product.scoreBreakdown || null,
             source: product.source,
             fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
         };
@@ -359,6 +394,8 @@ async function uploadToFirebase(products) {
                 originalPrice: product.originalPrice || null,
                 discount: product.discount,
                 dealScore: product.dealScore,
+                scoreBreakdown: product.scoreBreakdown || null,
+                ...priceStats,
                 fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
             });
             updateCount++;
@@ -366,8 +403,13 @@ async function uploadToFirebase(products) {
         else {
             batch.set(docRef, {
                 ...productData,
+                ...priceStats,
                 posted: false,
-                clicks: 0,
+                // Picked up by the creative render queue (see functions/src/creative/creativeStatus.ts)
+                creativeUrl: null,
+                creativeStatus: 'pending',
+                creativeAttempts: 0,
+                creativeLastError: null,
             });
             newCount++;
         }
@@ -384,6 +426,10 @@ async function main() {
     const startTime = Date.now();
     let browser = null;
     try {
+        // Load scoring weights/thresholds before spending time scraping
+        const settings = await loadScoringSettings();
+        const profile = settings.amazon;
+        console.log(`⚖️  Scoring settings: ${settings.version}${settings.ctr ? ` (CTR ${settings.ctr.version})` : ''}`);
         // Launch browser
         console.log('🌐 Launching browser...');
         browser = await playwright_1.chromium.launch({
@@ -393,6 +439,7 @@ async function main() {
         // Scrape products
         let products = await scrapeAmazon(browser);
         console.log(`\n📊 Total scraped: ${products.length} products`);
+        products.forEach(p => applyDealScore(p, settings));
         // Deduplicate
         const seen = new Map();
         for (const p of products) {
@@ -404,7 +451,7 @@ async function main() {
         products = Array.from(seen.values());
         console.log(`📊 After deduplication: ${products.length}`);
         // Filter quality
-        products = filterQualityProducts(products);
+        products = filterQualityProducts(products, profile);
         console.log(`📊 After quality filter: ${products.length}`);
         // Sort and take top 20
         products.sort((a, b) => b.dealScore - a.dealScore);
@@ -13,6 +13,7 @@
  * REQUIREMENTS:
  *   npm install playwright @playwright/test
  *   npx playwright install chromium
+ *   cd ../functions && npm run build   (shared scoring and price history)
  * 
  * This script will:
  * 1. Open a headless browser
@@ -24,6 +25,9 @@
 import { chromium, Browser, Page } from 'playwright';
 import * as admin from 'firebase-admin';
 import * as path from 'path';
+// Compiled from functions/src: the Cloud Functions' scoring and price history engine
+import { resolveScoringSettings, scoreDeal, ScoreBreakdown, ScoringProfile, ScoringSettings } from '../functions/lib/dealScoring';
+import { computePriceStats, PRICE_HISTORY_CONFIG, PricePoint, PriceStats } from '../functions/lib/priceHistory';
 
 // ============================================================================
 // CONFIGURATION
@@ -44,12 +48,8 @@ const CONFIG = {
     SCROLL_DELAY_MS: 3000,              // 3 seconds to "read" after scrolling
     PAGE_LOAD_TIMEOUT_MS: 30000,
 
-    // Quality Filters
-    MIN_PRICE: 25,
-    MAX_PRICE: 2500,
-    MIN_RATING: 3.0,
-    MIN_REVIEWS: 10,
-    MIN_DISCOUNT: 10,
+    // Quality filters and score weights are read from settings/scoring
+    // (amazon profile) and settings/ctrWeights, as in functions/src/dealScoring.ts
 };
 
 // URLs to scrape
@@ -85,6 +85,7 @@ interface ScrapedProduct {
     category: string;
     normalizedCategory: string;
     dealScore: number;
+    scoreBreakdown?: ScoreBreakdown;
     source: 'deals' | 'bestsellers';
     scrapedAt: number;
 }
@@ -107,39 +108,23 @@ function normalizeCategory(text: string): string {
     return 'other';
 }
 
-function calculateDealScore(product: Partial<ScrapedProduct>): number {
-    const discount = product.discount || 0;
-    const rating = product.rating || 0;
-    const reviews = product.reviewCount || 0;
-    const category = product.normalizedCategory || 'other';
-
-    const discountScore = Math.min((discount / 40) * 100, 100);
-    const ratingScore = Math.max(((rating - 3) / 2) * 100, 0);
-    const reviewScore = Math.min((Math.log10(Math.max(reviews, 1)) / Math.log10(5000)) * 100, 100);
-
-    const categoryWeights: Record<string, number> = {
-        electronics: 100, home: 80, sports: 75, toys: 70, other: 50
-    };
-    const categoryScore = categoryWeights[category] || 50;
-
-    const sourceBonus = product.source === 'deals' ? 10 : 0;
-
-    return Math.round(
-        discountScore * 0.30 +
-        ratingScore * 0.25 +
-        reviewScore * 0.20 +
-        categoryScore * 0.15 +
-        sourceBonus
-    );
+/**
+ * Score with the shared engine (local scraper has no upvotes signal)
+ */
+function applyDealScore(product: ScrapedProduct, settings: ScoringSettings): void {
+    product.scoreBreakdown = scoreDeal(product, settings.amazon, settings.version, settings.ctr);
+    product.dealScore = product.scoreBreakdown.total;
 }
 
-function filterQualityProducts(products: ScrapedProduct[]): ScrapedProduct[] {
+function filterQualityProducts(products: ScrapedProduct[], profile: ScoringProfile): ScrapedProduct[] {
+    const { thresholds } = profile;
     return products.filter(p => {
         if (!p.asin || p.asin.length !== 10) return false;
         if (!p.title || p.title.length < 10) return false;
-        if (p.price < CONFIG.MIN_PRICE || p.price > CONFIG.MAX_PRICE) return false;
-        if (p.rating > 0 && p.rating < CONFIG.MIN_RATING) return false;
-        if (p.reviewCount > 0 && p.reviewCount < CONFIG.MIN_REVIEWS) return false;
+        if (p.price < thresholds.minPrice || p.price > thresholds.maxPrice) return false;
+        if (p.rating > 0 && p.rating < thresholds.minRating) return false;
+        if (p.reviewCount > 0 && p.reviewCount < thresholds.minReviews) return false;
+        if (p.discount < thresholds.minDiscount) return false;
         return true;
     });
 }
@@ -280,11 +265,8 @@ async function scrapeProductsFromPage(
         category,
         normalizedCategory: normalizeCategory(p.title),
         source,
-        dealScore: 0,
+        dealScore: 0,   // Scored in main() once settings are loaded
         scrapedAt: now,
-    })).map(p => ({
-        ...p,
-        dealScore: calculateDealScore(p),
     }));
 }
 
@@ -340,24 +322,81 @@ async function scrapeAmazon(browser: Browser): Promise<ScrapedProduct[]> {
 // FIREBASE UPLOAD
 // ============================================================================
 
-async function uploadToFirebase(products: ScrapedProduct[]): Promise<{ newCount: number; updateCount: number }> {
-    // Initialize Firebase
+function initFirebase(): void {
+    if (admin.apps.length) return;
+
     const serviceAccountPath = path.resolve(CONFIG.FIREBASE_SERVICE_ACCOUNT);
 
     try {
         const serviceAccount = require(serviceAccountPath);
 
-        if (!admin.apps.length) {
-            admin.initializeApp({
-                credential: admin.credential.cert(serviceAccount),
-                projectId: CONFIG.FIREBASE_PROJECT_ID,
-            });
-        }
+        admin.initializeApp({
+            credential: admin.credential.cert(serviceAccount),
+            projectId: CONFIG.FIREBASE_PROJECT_ID,
+        });
     } catch (error) {
         console.error('❌ Failed to load service account. Make sure service-account.json exists.');
         console.error('   Download it from Firebase Console > Project Settings > Service Accounts');
         throw error;
     }
+}
+
+/**
+ * Read settings/scoring and settings/ctrWeights, merged over the shared
+ * defaults (same as loadScoringSettings() in the Cloud Functions)
+ */
+async function loadScoringSettings(): Promise<ScoringSettings> {
+    initFirebase();
+
+    let scoringData: admin.firestore.DocumentData | undefined;
+    let ctrData: admin.firestore.DocumentData | undefined;
+    try {
+        const settings = admin.firestore().collection('settings');
+        const [scoringDoc, ctrDoc] = await Promise.all([settings.doc('scoring').get(), settings.doc('ctrWeights').get()]);
+        scoringData = scoringDoc.data();
+        ctrData = ctrDoc.data();
+    } catch (error) {
+        console.warn('⚠️ Failed to load scoring settings, using defaults:', error);
+    }
+
+    return resolveScoringSettings(scoringData, ctrData);
+}
+
+/**
+ * Queue a price history entry and return the summary fields for the product,
+ * computed by the shared price history engine (same fields as the Cloud
+ * Function fetch writes)
+ */
+async function recordPriceObservation(
+    batch: admin.firestore.WriteBatch,
+    docRef: admin.firestore.DocumentReference,
+    existing: admin.firestore.DocumentData | undefined,
+    product: ScrapedProduct
+): Promise<Partial<PriceStats>> {
+    if (!product.price || product.price <= 0) return {};
+
+    const now = Date.now();
+    let recent: PricePoint[] = [];
+
+    if (existing) {
+        const since = admin.firestore.Timestamp.fromMillis(now - PRICE_HISTORY_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const history = await docRef.collection('priceHistory').where('observedAt', '>=', since).get();
+        recent = history.docs.map(d => ({ price: d.get('price'), observedAt: d.get('observedAt').toMillis() }));
+    }
+
+    batch.set(docRef.collection('priceHistory').doc(), {
+        price: product.price,
+        originalPrice: product.originalPrice || null,
+        discount: product.discount,
+        source: `local-${product.source}`,
+        observedAt: admin.firestore.Timestamp.fromMillis(now),
+    });
+
+    return computePriceStats(recent, existing || {}, { price: product.price, observedAt: now });
+}
+
+async function uploadToFirebase(products: ScrapedProduct[]): Promise<{ newCount: number; updateCount: number }> {
+    initFirebase();
 
     const db = admin.firestore();
     const batch = db.batch();
@@ -367,6 +406,7 @@ async function uploadToFirebase(products: ScrapedProduct[]): Promise<{ newCount:
     for (const product of products) {
         const docRef = db.collection('products').doc(product.asin);
         const existing = await docRef.get();
+        const priceStats = await recordPriceObservation(batch, docRef, existing.data(), product);
 
         const productData = {
             asin: product.asin,
@@ -380,6 +420,7 @@ async function uploadToFirebase(products: ScrapedProduct[]): Promise<{ newCount:
             rating: product.rating,
             reviewCount: product.reviewCount,
             dealScore: product.dealScore,
+            scoreBreakdown: product.scoreBreakdown || null,
             source: product.source,
             fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
         };
@@ -390,14 +431,21 @@ async function uploadToFirebase(products: ScrapedProduct[]): Promise<{ newCount:
                 originalPrice: product.originalPrice || null,
                 discount: product.discount,
                 dealScore: product.dealScore,
+                scoreBreakdown: product.scoreBreakdown || null,
+                ...priceStats,
                 fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
             });
             updateCount++;
         } else {
             batch.set(docRef, {
                 ...productData,
+                ...priceStats,
                 posted: false,
-                clicks: 0,
+                // Picked up by the creative render queue (see functions/src/creative/creativeStatus.ts)
+                creativeUrl: null,
+                creativeStatus: 'pending',
+                creativeAttempts: 0,
+                creativeLastError: null,
             });
             newCount++;
         }
@@ -419,6 +467,11 @@ async function main() {
     let browser: Browser | null = null;
 
     try {
+        // Load scoring weights/thresholds before spending time scraping
+        const settings = await loadScoringSettings();
+        const profile = settings.amazon;
+        console.log(`⚖️  Scoring settings: ${settings.version}${settings.ctr ? ` (CTR ${settings.ctr.version})` : ''}`);
+
         // Launch browser
         console.log('🌐 Launching browser...');
         browser = await chromium.launch({
@@ -429,6 +482,7 @@ async function main() {
         // Scrape products
         let products = await scrapeAmazon(browser);
         console.log(`\n📊 Total scraped: ${products.length} products`);
+        products.forEach(p => applyDealScore(p, settings));
 
         // Deduplicate
         const seen = new Map<string, ScrapedProduct>();
@@ -442,7 +496,7 @@ async function main() {
         console.log(`📊 After deduplication: ${products.length}`);
 
         // Filter quality
-        products = filterQualityProducts(products);
+        products = filterQualityProducts(products, profile);
         console.log(`📊 After quality filter: ${products.length}`);
 
         // Sort and take top 20